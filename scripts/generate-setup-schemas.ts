@@ -0,0 +1,250 @@
+/**
+ * Generates the JSON Schemas for plain JSON setups from the setup interfaces.
+ *
+ *   npm run schemas
+ *
+ * Interfaces become `$defs`, generic interfaces are inlined for each set of type arguments, enums become
+ * string enums, and `NumericString` fields are strings or numbers that must be numeric.
+ */
+import fs from 'fs';
+import path from 'path';
+
+import ts from 'typescript';
+
+type Schema = Record<string, unknown>;
+
+interface SetupSchemaConfig {
+  file: string;
+  typeName: string;
+  game: string;
+  version: string;
+  title: string;
+}
+
+type TypeParameters = Map<string, () => Schema>;
+
+const root = path.resolve(__dirname, '..');
+
+const configs: SetupSchemaConfig[] = [
+  {
+    file: 'src/components/formatter/horizon/FHSetup.ts',
+    typeName: 'FHSetup',
+    game: 'fh5',
+    version: 'v1',
+    title: 'Forza Horizon 5 Setup',
+  },
+  {
+    file: 'src/components/formatter/motorsport/FMSetup.ts',
+    typeName: 'FMSetupV3',
+    game: 'fm8',
+    version: 'v3',
+    title: 'Forza Motorsport Setup',
+  },
+];
+
+const numericSchema: Schema = {
+  title: 'numeric',
+  description: 'A number, or an empty string when left blank',
+  type: ['string', 'number'],
+  pattern: '^(-?\\d+(\\.\\d+)?)?$',
+};
+
+function createSchemaGenerator(checker: ts.TypeChecker) {
+  const defs: Record<string, Schema> = { NumericString: numericSchema };
+
+  function getDeclaration(name: ts.EntityName | ts.Expression) {
+    let symbol = checker.getSymbolAtLocation(name);
+    // eslint-disable-next-line no-bitwise
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = checker.getAliasedSymbol(symbol);
+    const declaration = symbol?.declarations?.[0];
+    if (!declaration) throw new Error(`Unable to resolve ${name.getText()}`);
+    return declaration;
+  }
+
+  function bindTypeParameters(
+    declaration: ts.InterfaceDeclaration | ts.TypeAliasDeclaration,
+    typeArguments: readonly ts.TypeNode[] | undefined,
+    params: TypeParameters,
+  ): TypeParameters {
+    const bound: TypeParameters = new Map();
+    declaration.typeParameters?.forEach((parameter, index) => {
+      const argument = typeArguments?.[index];
+      if (argument) {
+        bound.set(parameter.name.text, () => toSchema(argument, params));
+      } else if (parameter.default) {
+        const fallback = parameter.default;
+        bound.set(parameter.name.text, () => toSchema(fallback, bound));
+      } else {
+        throw new Error(`Missing type argument ${parameter.name.text} for ${declaration.name.text}`);
+      }
+    });
+    return bound;
+  }
+
+  function getObjectSchema(
+    name: ts.EntityName | ts.Expression,
+    typeArguments: readonly ts.TypeNode[] | undefined,
+    params: TypeParameters,
+  ): Schema {
+    if (name.getText() === 'Omit' && typeArguments) {
+      const [source, keys] = typeArguments;
+      if (!ts.isTypeReferenceNode(source)) throw new Error(`Unsupported Omit source ${source.getText()}`);
+      const schema = getObjectSchema(source.typeName, source.typeArguments, params);
+      const omitted = (ts.isUnionTypeNode(keys) ? keys.types : [keys])
+        .map((key) => (ts.isLiteralTypeNode(key) && ts.isStringLiteral(key.literal) ? key.literal.text : ''));
+      const properties = { ...(schema.properties as Record<string, Schema>) };
+      omitted.forEach((key) => delete properties[key]);
+      return {
+        ...schema,
+        properties,
+        required: (schema.required as string[]).filter((key) => !omitted.includes(key)),
+      };
+    }
+
+    const declaration = getDeclaration(name);
+    if (!ts.isInterfaceDeclaration(declaration)) throw new Error(`${name.getText()} is not an interface`);
+    const bound = bindTypeParameters(declaration, typeArguments, params);
+
+    let properties: Record<string, Schema> = {};
+    let required: string[] = [];
+
+    declaration.heritageClauses?.forEach((clause) => {
+      clause.types.forEach((heritage) => {
+        const inherited = getObjectSchema(heritage.expression, heritage.typeArguments, bound);
+        properties = { ...properties, ...(inherited.properties as Record<string, Schema>) };
+        required = [...required, ...(inherited.required as string[])];
+      });
+    });
+
+    declaration.members.forEach((member) => {
+      // Index signatures only exist to loop over upgrades, every upgrade is a named property
+      if (!ts.isPropertySignature(member) || !member.type) return;
+      const key = member.name.getText();
+      properties[key] = toSchema(member.type, bound);
+      required = required.filter((candidate) => candidate !== key);
+      if (!member.questionToken) required.push(key);
+    });
+
+    return {
+      type: 'object',
+      properties,
+      required,
+      additionalProperties: false,
+    };
+  }
+
+  /**
+   * Interfaces without type parameters are only defined once
+   */
+  function getDefinitionRef(declaration: ts.InterfaceDeclaration): Schema {
+    const name = declaration.name.text;
+    if (!defs[name]) {
+      defs[name] = {};
+      defs[name] = getObjectSchema(declaration.name, undefined, new Map());
+    }
+    return { $ref: `#/$defs/${name}` };
+  }
+
+  function getReferenceSchema(node: ts.TypeReferenceNode, params: TypeParameters): Schema {
+    const name = node.typeName.getText();
+    const parameter = params.get(name);
+    if (parameter) return parameter();
+
+    if (name === 'Omit') return getObjectSchema(node.typeName, node.typeArguments, params);
+
+    const declaration = getDeclaration(node.typeName);
+
+    if (ts.isEnumDeclaration(declaration)) {
+      return {
+        type: 'string',
+        enum: declaration.members.map((member) => (member.initializer as ts.StringLiteral).text),
+      };
+    }
+
+    if (ts.isTypeAliasDeclaration(declaration)) {
+      if (name === 'NumericString') return { $ref: '#/$defs/NumericString' };
+      return toSchema(declaration.type, bindTypeParameters(declaration, node.typeArguments, params));
+    }
+
+    if (ts.isInterfaceDeclaration(declaration) && !declaration.typeParameters) {
+      return getDefinitionRef(declaration);
+    }
+
+    return getObjectSchema(node.typeName, node.typeArguments, params);
+  }
+
+  function getUnionSchema(node: ts.UnionTypeNode, params: TypeParameters): Schema {
+    const members = node.types.map((member) => toSchema(member, params));
+    if (members.every((member) => member.enum)) {
+      return {
+        type: 'string',
+        enum: [...new Set(members.flatMap((member) => member.enum as string[]))],
+      };
+    }
+    return { anyOf: members };
+  }
+
+  function toSchema(node: ts.TypeNode, params: TypeParameters): Schema {
+    if (ts.isTypeReferenceNode(node)) return getReferenceSchema(node, params);
+    if (ts.isUnionTypeNode(node)) return getUnionSchema(node, params);
+    if (ts.isParenthesizedTypeNode(node)) return toSchema(node.type, params);
+    if (ts.isArrayTypeNode(node)) return { type: 'array', items: toSchema(node.elementType, params) };
+    if (ts.isLiteralTypeNode(node) && ts.isStringLiteral(node.literal)) return { type: 'string', enum: [node.literal.text] };
+
+    switch (node.kind) {
+      case ts.SyntaxKind.StringKeyword:
+        return { type: 'string' };
+      case ts.SyntaxKind.NumberKeyword:
+        return { type: 'number' };
+      case ts.SyntaxKind.BooleanKeyword:
+        return { type: 'boolean' };
+      default:
+        throw new Error(`Unsupported type ${node.getText()}`);
+    }
+  }
+
+  return { defs, getDefinitionRef };
+}
+
+function generateSetupSchema(program: ts.Program, config: SetupSchemaConfig): Schema {
+  const source = program.getSourceFile(path.join(root, config.file));
+  const declaration = source?.statements
+    .find((statement) => ts.isInterfaceDeclaration(statement) && statement.name.text === config.typeName) as ts.InterfaceDeclaration;
+  if (!declaration) throw new Error(`${config.typeName} not found in ${config.file}`);
+
+  const generator = createSchemaGenerator(program.getTypeChecker());
+  const setup = generator.getDefinitionRef(declaration);
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `https://optn.club/schemas/${config.game}-setup.schema.json`,
+    title: config.title,
+    type: 'object',
+    properties: {
+      $schema: { type: 'string' },
+      game: { type: 'string', enum: [config.game] },
+      version: { type: 'string', enum: [config.version] },
+      setup,
+    },
+    required: ['game', 'version', 'setup'],
+    additionalProperties: false,
+    $defs: generator.defs,
+  };
+}
+
+const program = ts.createProgram(configs.map((config) => path.join(root, config.file)), {
+  strict: true,
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  resolveJsonModule: true,
+  esModuleInterop: true,
+});
+
+configs.forEach((config) => {
+  const schema = generateSetupSchema(program, config);
+  const output = path.join(root, 'public/schemas', `${config.game}-setup.schema.json`);
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, `${JSON.stringify(schema, null, 2)}\n`);
+  console.log(`Wrote ${path.relative(root, output)}`);
+});
@@ -0,0 +1,19 @@
+/**
+ * Headless entry point for the formatter, ie. for bots expanding pasted links.
+ *
+ *   npm run optn -- decode <url> --format discord --units imperial
+ */
+import fs from 'fs';
+
+import optn from './optn';
+
+function readInput(path: string): string {
+  return fs.readFileSync(path === '-' ? 0 : path, 'utf8');
+}
+
+try {
+  process.stdout.write(`${optn(process.argv.slice(2), readInput).trimEnd()}\n`);
+} catch (error) {
+  process.stderr.write(`${(error as Error).message}\n`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+
+import fhRedditGenerator from '../components/formatter/horizon/fh-reddit-generator';
+import fhSetupJson from '../components/formatter/horizon/fh-setup-json';
+import fmDiscordGenerator from '../components/formatter/motorsport/fm-discord-generator';
+import fmSetupJson from '../components/formatter/motorsport/fm-setup-json';
+import getTestForm, { getFMTestForm } from '../lib/testForm';
+
+import optn, { parseArgs, usage } from './optn';
+
+/**
+ * The test form leaves out a few `na` flags, which decoded forms always have
+ */
+function getFHForm() {
+  const form = getTestForm();
+  const { tune } = form;
+  [tune.arb, tune.springs, tune.rideHeight, tune.damping, tune.bump, tune.aero, tune.diff].forEach((setting) => {
+    setting.na = false;
+  });
+  return form;
+}
+
+const files: Record<string, string> = {
+  'fh.json': fhSetupJson.exportSetup(getFHForm()),
+  'fm.json': fmSetupJson.exportSetup(getFMTestForm()),
+};
+
+function readInput(path: string) {
+  return files[path];
+}
+
+describe('optn cli', () => {
+  it('should parse options', () => {
+    expect(parseArgs(['decode', 'abc', '--format', 'Discord', '--units=imperial'])).toEqual({
+      positionals: ['decode', 'abc'],
+      options: { game: undefined, format: 'discord', globalUnit: 'Imperial' },
+    });
+    expect(() => parseArgs(['--format', 'pdf'])).toThrow('--format must be one of: reddit, discord, discord-embed, bbcode, svg, json');
+    expect(() => parseArgs(['--color', 'red'])).toThrow('Unknown option --color');
+  });
+
+  it('should encode setups and decode them back to JSON', () => {
+    const fhLink = optn(['encode', 'fh.json'], readInput);
+    const fmLink = optn(['encode', 'fm.json'], readInput);
+
+    expect(fhLink).toMatch(/^https:\/\/optn\.club\/formatter\/forza\/horizon5\/v1\//);
+    expect(fmLink).toMatch(/^https:\/\/optn\.club\/formatter\/forza\/motorsport\/v3\//);
+    expect(optn(['decode', fhLink, '--format', 'json'], readInput)).toBe(files['fh.json']);
+    expect(optn(['decode', fmLink, '--format', 'json'], readInput)).toBe(files['fm.json']);
+  });
+
+  it('should format decoded links as posts', () => {
+    const fhLink = optn(['encode', 'fh.json'], readInput);
+    const fmLink = optn(['encode', 'fm.json'], readInput);
+
+    expect(optn(['decode', fhLink], readInput)).toBe(fhRedditGenerator(getFHForm(), 'Metric', fhLink));
+    expect(optn(['decode', fmLink, '--format', 'discord', '--units', 'imperial'], readInput))
+      .toBe(fmDiscordGenerator(getFMTestForm(), 'Imperial', fmLink));
+    expect(optn(['format', 'fm.json', '--format', 'discord'], readInput))
+      .toBe(fmDiscordGenerator(getFMTestForm(), 'Metric', fmLink));
+  });
+
+  it('should explain invalid input', () => {
+    const invalid = files['fh.json'].replace('"tune": {', '"tune": { "extra": 1,');
+
+    expect(optn([], readInput)).toBe(usage);
+    expect(() => optn(['decode'], readInput)).toThrow('Missing input for decode');
+    expect(() => optn(['publish', 'fh.json'], readInput)).toThrow('Unknown command publish');
+    expect(() => optn(['format', 'invalid.json'], () => invalid)).toThrow('tune.extra is not a known field');
+  });
+});
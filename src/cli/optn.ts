@@ -0,0 +1,167 @@
+import fhBBCodeGenerator from '../components/formatter/horizon/fh-bbcode-generator';
+import fhDiscordEmbedGenerator from '../components/formatter/horizon/fh-discord-embed-generator';
+import fhDiscordGenerator from '../components/formatter/horizon/fh-discord-generator';
+import fhRedditGenerator from '../components/formatter/horizon/fh-reddit-generator';
+import fhSetupJson from '../components/formatter/horizon/fh-setup-json';
+import fhTuneCardGenerator from '../components/formatter/horizon/fh-tune-card-generator';
+import fmBBCodeGenerator from '../components/formatter/motorsport/fm-bbcode-generator';
+import fmDiscordEmbedGenerator from '../components/formatter/motorsport/fm-discord-embed-generator';
+import fmDiscordGenerator from '../components/formatter/motorsport/fm-discord-generator';
+import fmRedditGenerator from '../components/formatter/motorsport/fm-reddit-generator';
+import fmSetupJson from '../components/formatter/motorsport/fm-setup-json';
+import fmTuneCardGenerator from '../components/formatter/motorsport/fm-tune-card-generator';
+import { decodeFormLink, encodeFormLink } from '../lib/formGames';
+import parseFormLink, { FormGame } from '../lib/formLink';
+import { SetupJson } from '../lib/setupJson';
+import { GlobalUnit } from '../lib/types';
+
+export type OutputFormat = 'reddit' | 'discord' | 'discord-embed' | 'bbcode' | 'svg' | 'json';
+
+type PostGenerator = (form: never, globalUnit: GlobalUnit, linkUrl: string) => string;
+
+interface CliGame {
+  setupJson: SetupJson<object>;
+  generators: Record<Exclude<OutputFormat, 'json'>, PostGenerator>;
+}
+
+export interface CliOptions {
+  game?: FormGame;
+  format: OutputFormat;
+  globalUnit: GlobalUnit;
+}
+
+export const usage = `Usage: optn <command> [options]
+
+Commands:
+  decode <url|encoded>   Decode an optn.club link, or a bare encoded form
+  format <file|->        Format a setup exported as JSON
+  encode <file|->        Print the optn.club link for a setup exported as JSON
+
+Options:
+  --format <format>          Output format, defaults to reddit
+                             reddit|discord|discord-embed|bbcode|svg|json
+  --units metric|imperial    Units shown in the post, defaults to metric
+  --game fh5|fm8             Game of a bare encoded form, defaults to fh5`;
+
+const cliGames: Record<FormGame, CliGame> = {
+  fh5: {
+    setupJson: fhSetupJson as SetupJson<object>,
+    generators: {
+      reddit: fhRedditGenerator,
+      discord: fhDiscordGenerator,
+      'discord-embed': fhDiscordEmbedGenerator,
+      bbcode: fhBBCodeGenerator,
+      svg: fhTuneCardGenerator,
+    },
+  },
+  fm8: {
+    setupJson: fmSetupJson as SetupJson<object>,
+    generators: {
+      reddit: fmRedditGenerator,
+      discord: fmDiscordGenerator,
+      'discord-embed': fmDiscordEmbedGenerator,
+      bbcode: fmBBCodeGenerator,
+      svg: fmTuneCardGenerator,
+    },
+  },
+};
+
+const optionValues: Record<string, string[]> = {
+  format: ['reddit', 'discord', 'discord-embed', 'bbcode', 'svg', 'json'],
+  units: ['metric', 'imperial'],
+  game: Object.keys(cliGames),
+};
+
+/**
+ * Splits the arguments into positionals and `--name value` (or `--name=value`) options
+ */
+export function parseArgs(args: string[]): { positionals: string[], options: CliOptions } {
+  const positionals: string[] = [];
+  const values: Record<string, string> = {};
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (arg.startsWith('--')) {
+      const [name, inlineValue] = arg.slice(2).split('=');
+      let value = inlineValue;
+      if (value === undefined) {
+        index += 1;
+        value = args[index];
+      }
+      if (!optionValues[name]) throw new Error(`Unknown option --${name}`);
+      if (!optionValues[name].includes(value?.toLowerCase())) {
+        throw new Error(`--${name} must be one of: ${optionValues[name].join(', ')}`);
+      }
+      values[name] = value.toLowerCase();
+    } else {
+      positionals.push(arg);
+    }
+  }
+
+  return {
+    positionals,
+    options: {
+      game: values.game as FormGame | undefined,
+      format: (values.format ?? 'reddit') as OutputFormat,
+      globalUnit: values.units === 'imperial' ? 'Imperial' : 'Metric',
+    },
+  };
+}
+
+export function formatSetup(game: FormGame, form: object, options: CliOptions): string {
+  const config = cliGames[game];
+  if (options.format === 'json') return config.setupJson.exportSetup(form);
+
+  const generator = config.generators[options.format];
+  return generator(form as never, options.globalUnit, encodeFormLink(game, form));
+}
+
+/**
+ * Reads a setup exported as JSON, using the game it was exported for
+ */
+export function readSetupJson(text: string): { game: FormGame, form: object } {
+  let game: unknown;
+  try {
+    game = JSON.parse(text).game;
+  } catch (error) {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const config = cliGames[game as FormGame];
+  if (!config) throw new Error(`game must be one of: ${Object.keys(cliGames).join(', ')}`);
+
+  const { setup, errors } = config.setupJson.importSetup(text);
+  if (!setup) throw new Error(errors.join('\n'));
+
+  return { game: game as FormGame, form: setup };
+}
+
+/**
+ * Runs a CLI command and returns its output.  Errors are thrown with a message meant for the user.
+ * `readInput` reads the file named on the command line, `-` for stdin.
+ */
+export default function optn(args: string[], readInput: (path: string) => string): string {
+  const { positionals, options } = parseArgs(args);
+  const [command, input] = positionals;
+
+  if (!command || command === 'help') return usage;
+  if (!input) throw new Error(`Missing input for ${command}\n\n${usage}`);
+
+  switch (command) {
+    case 'decode': {
+      const link = parseFormLink(input);
+      const game = link.game ?? options.game ?? 'fh5';
+      return formatSetup(game, decodeFormLink(game, link), options);
+    }
+    case 'format': {
+      const { game, form } = readSetupJson(readInput(input));
+      return formatSetup(game, form, options);
+    }
+    case 'encode': {
+      const { game, form } = readSetupJson(readInput(input));
+      return encodeFormLink(game, form);
+    }
+    default:
+      throw new Error(`Unknown command ${command}\n\n${usage}`);
+  }
+}
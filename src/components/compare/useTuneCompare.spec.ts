@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import useFormEncoder from '../../lib/useFormEncoder';
+import { FHSetup, getEncoderOptions as getFHEncoderOptions } from '../formatter/horizon/FHSetup';
+import { FMSetup, FMSetupV3, getEncoderOptions as getFMEncoderOptions } from '../formatter/motorsport/FMSetup';
+
+import { compareFormLinks } from './useTuneCompare';
+
+function encodeFH(update: (form: FHSetup) => void) {
+  const options = getFHEncoderOptions('v1');
+  const form = options.getDefaultForm() as unknown as FHSetup;
+  update(form);
+  return useFormEncoder<FHSetup>(options).encode(form);
+}
+
+describe('compareFormLinks', () => {
+  it('should compare two links', () => {
+    const before = encodeFH((form) => { form.tune.arb.front = '10'; });
+    const after = encodeFH((form) => { form.tune.arb.front = '12'; });
+
+    const comparison = compareFormLinks(
+      `https://optn.club/formatter/forza/horizon5/v1/${encodeURIComponent(before)}`,
+      `https://optn.club/formatter/forza/horizon5/v1/${encodeURIComponent(after)}`,
+      'fm8',
+    );
+
+    expect(comparison.game).toBe('fh5');
+    expect(comparison.upgrades).toEqual([]);
+    expect(comparison.tune).toEqual([{
+      title: 'Anti-roll Bars',
+      changes: [{
+        path: 'tune.arb.front', label: 'Front', before: '10', after: '12',
+      }],
+    }]);
+  });
+
+  it('should upgrade older form versions before comparing', () => {
+    const options = getFMEncoderOptions('v2');
+    const form = options.getDefaultForm() as unknown as FMSetup;
+    form.tune.springs.front = '100';
+    const before = useFormEncoder<FMSetup>(options).encode(form);
+
+    const latestOptions = getFMEncoderOptions('v3');
+    const latest = latestOptions.getDefaultForm() as unknown as FMSetupV3;
+    latest.tune.springs.front = '100';
+    const after = useFormEncoder<FMSetupV3>(latestOptions).encode(latest);
+
+    const comparison = compareFormLinks(`/formatter/forza/motorsport/v2/${encodeURIComponent(before)}`, after, 'fh5');
+
+    expect(comparison.game).toBe('fm8');
+    expect(comparison.tune).toEqual([]);
+    expect(comparison.upgrades).toEqual([]);
+  });
+
+  it('should reject links for different games', () => {
+    expect(() => compareFormLinks(
+      'https://optn.club/formatter/forza/horizon5/v1/',
+      'https://optn.club/formatter/forza/motorsport/v3/',
+      'fh5',
+    )).toThrow('Both tunes must be for the same game.');
+  });
+});
@@ -0,0 +1,87 @@
+import { computed, ref } from 'vue';
+
+import diffForms, { DiffSection, SectionChanges } from '../../lib/formDiff';
+import { decodeFormLink, encodeFormLink, FormGameConfig, formGames } from '../../lib/formGames';
+import parseFormLink, { FormGame } from '../../lib/formLink';
+import { fhTuneSections, fhUpgradeSections } from '../formatter/horizon/FHSetup';
+import { fmTuneSections, fmUpgradeSections } from '../formatter/motorsport/FMSetup';
+
+interface CompareGame extends FormGameConfig {
+  tuneSections: DiffSection[];
+  upgradeSections: DiffSection[];
+}
+
+export const compareGames: Record<FormGame, CompareGame> = {
+  fh5: {
+    ...formGames.fh5,
+    tuneSections: fhTuneSections,
+    upgradeSections: fhUpgradeSections,
+  },
+  fm8: {
+    ...formGames.fm8,
+    tuneSections: fmTuneSections,
+    upgradeSections: fmUpgradeSections,
+  },
+};
+
+export interface TuneComparison {
+  game: FormGame;
+  before: object;
+  after: object;
+  /**
+   * Link to the latest version of the `after` form
+   */
+  afterUrl: string;
+  tune: SectionChanges[];
+  upgrades: SectionChanges[];
+}
+
+export function compareFormLinks(beforeInput: string, afterInput: string, defaultGame: FormGame): TuneComparison {
+  const beforeLink = parseFormLink(beforeInput);
+  const afterLink = parseFormLink(afterInput);
+
+  if (beforeLink.game && afterLink.game && beforeLink.game !== afterLink.game) {
+    throw new Error('Both tunes must be for the same game.');
+  }
+
+  const game = beforeLink.game ?? afterLink.game ?? defaultGame;
+  const config = compareGames[game];
+  const before = decodeFormLink(game, beforeLink);
+  const after = decodeFormLink(game, afterLink);
+
+  return {
+    game,
+    before,
+    after,
+    afterUrl: encodeFormLink(game, after),
+    tune: diffForms(before, after, config.tuneSections),
+    upgrades: diffForms(before, after, config.upgradeSections),
+  };
+}
+
+export default function useTuneCompare() {
+  const game = ref<FormGame>('fh5');
+  const before = ref('');
+  const after = ref('');
+
+  const result = computed(() => {
+    if (!before.value.trim() || !after.value.trim()) {
+      return { comparison: undefined, error: '' };
+    }
+
+    try {
+      return { comparison: compareFormLinks(before.value, after.value, game.value), error: '' };
+    } catch (error) {
+      console.error(error);
+      return { comparison: undefined, error: (error as Error).message || 'Unable to decode tune.' };
+    }
+  });
+
+  return {
+    game,
+    before,
+    after,
+    comparison: computed(() => result.value.comparison),
+    error: computed(() => result.value.error),
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import getTestForm, { getFMTestForm } from '../../lib/testForm';
+
+import fhBBCodeGenerator from './horizon/fh-bbcode-generator';
+import fmBBCodeGenerator from './motorsport/fm-bbcode-generator';
+
+const LINK_URL = 'https://optn.club/formatter/forza/horizon5/v1/test';
+
+describe('bbcode-output', () => {
+  it('should format the tune as tables and the build as lists', () => {
+    const post = fhBBCodeGenerator(getTestForm(), 'Metric', LINK_URL);
+
+    expect(post).toContain(`[url=${LINK_URL}]View this tune on optn.club[/url]`);
+    expect(post).toContain('[b]Platform And Handling[/b]\n[list]\n[*]Brakes: Sport\n');
+    expect(post).toContain('[tr][td][b]Alignment[/b][/td][td][b]Camber[/b][/td][td][b]Toe[/b][/td][td][b]Caster[/b][/td][/tr]');
+    expect(post).toContain('[tr][td]Front[/td][td]-1.0°[/td][td]-1.1°[/td][td]5.5°[/td][/tr]');
+    expect(post).not.toContain('[*]Name:');
+    expect(post).not.toContain('**');
+  });
+
+  it('should show the stats in the global unit', () => {
+    const form = getFMTestForm();
+    form.stats.torque = '500';
+    form.stats.weight = '1400';
+
+    const metric = fmBBCodeGenerator(form, 'Metric', LINK_URL);
+    const imperial = fmBBCodeGenerator(form, 'Imperial', LINK_URL);
+
+    expect(metric).toContain('[tr][td][b]Weight[/b][/td][td]1400 kg[/td][/tr]');
+    expect(imperial).toContain('[tr][td][b]Weight[/b][/td][td]1400 lbs[/td][/tr]');
+    expect(imperial).toContain('[tr][td][b]Torque[/b][/td][td]500 lbf·ft[/td][/tr]');
+  });
+
+  it('should mark settings that do not apply', () => {
+    const form = getFMTestForm();
+    form.tune.steeringWheel.na = true;
+
+    expect(fmBBCodeGenerator(form, 'Metric', LINK_URL)).toContain(
+      '[tr][td][b]Steering Wheel[/b][/td][td][/td][/tr]\n[tr][td]Not Applicable[/td][td][/td][/tr]',
+    );
+  });
+});
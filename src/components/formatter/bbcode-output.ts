@@ -0,0 +1,94 @@
+import {
+  DocumentRow,
+  DocumentSection,
+  DocumentTable,
+  formatCellValue,
+  getTableGrid,
+  OutputTarget,
+  SetupDocument,
+  TableGrid,
+} from './setup-document';
+
+function bold(value: string): string {
+  if (!value) return value;
+  return `[b]${value.replace(/\[\/?b\]/g, '')}[/b]`;
+}
+
+function url(link: string, text: string): string {
+  return `[url=${link}]${text}[/url]`;
+}
+
+function formatTableRow(row: string[], boldFirstCol = false) {
+  const cells = row.map((cell, index) => (boldFirstCol && index === 0 ? bold(cell) : cell));
+  return `[tr]${cells.map((cell) => `[td]${cell}[/td]`).join('')}[/tr]`;
+}
+
+function formatTable({ header, body }: TableGrid, boldFirstCol = false): string[] {
+  if (body.length === 0) return [];
+
+  return [
+    '[table]',
+    formatTableRow(header.map(bold)),
+    ...body.map((row) => formatTableRow(row, boldFirstCol)),
+    '[/table]',
+    '',
+  ];
+}
+
+function formatStatistics(stats: DocumentRow[], shareCode: string): string[] {
+  const body = stats.map((row) => [row.label, ...row.cells.map(formatCellValue)]);
+  if (shareCode) body.push(['Share Code', shareCode]);
+
+  return formatTable({ header: ['Stats', ''], body }, true);
+}
+
+/**
+ * Build tables are a list of the parts, parts without a value are left out
+ */
+function formatList(table: DocumentTable): string[] {
+  const { header, body } = getTableGrid(table);
+  const items = body
+    .map(([label, ...values]) => [label, values.filter((value) => value).join(' / ')])
+    .filter(([, value]) => value);
+  if (items.length === 0) return [];
+
+  return [
+    bold(header[0]),
+    '[list]',
+    ...items.map(([label, value]) => `[*]${label}: ${value}`),
+    '[/list]',
+    '',
+  ];
+}
+
+function formatBuildSections(sections: DocumentSection[]): string[] {
+  return sections.flatMap((section) => section.tables.flatMap(formatList));
+}
+
+function formatTuneSections(sections: DocumentSection[]): string[] {
+  return sections.flatMap((section) => section.tables.flatMap((table) => formatTable(getTableGrid(table), table.boldLabels)));
+}
+
+export function formatBBCodePost(document: SetupDocument) {
+  return [
+    `[size=5]${bold([document.car, document.rating].filter((val) => val).join(' - '))}[/size]`,
+    '',
+    ...formatStatistics(document.stats, document.shareCode),
+    url(document.linkUrl, 'View this tune on optn.club'),
+    '',
+    `[size=4]${bold(document.buildTitle)}[/size]`,
+    '',
+    ...formatBuildSections(document.build),
+    `[size=4]${bold('Tune')}[/size]`,
+    '',
+    ...formatTuneSections(document.tune),
+    `Formatted text generated by the ${url(document.formatter.url, `OPTN.club ${document.formatter.name}`)}`,
+    `Submit bugs, feature requests, and questions on ${url('https://github.com/OPTN-Club/optn.club/issues', 'Github')}`,
+  ].join('\n');
+}
+
+export const bbcodeOutput: OutputTarget = {
+  id: 'bbcode',
+  label: 'BBCode',
+  render: formatBBCodePost,
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+
+import { ForceUnit, PressureUnit, SpringRateUnit, Upgrade } from '../../lib/types';
+
+import { getChangelogSections } from './changelog-generator';
+import { fhDiscordChangelogGenerator, fhRedditChangelogGenerator } from './horizon/fh-changelog-generator';
+import getFHDefaultFormV1, { fhTuneSections } from './horizon/FHSetup';
+
+function getRevisions() {
+  const before = getFHDefaultFormV1();
+  before.make = 'Ferrari';
+  before.model = '488 Pista';
+  before.tune.tires.front = '2.0';
+  before.tune.springs.front = '100';
+  before.tune.springs.rear = '90';
+  before.build.engine.camshaft = Upgrade.sport;
+
+  const after = getFHDefaultFormV1();
+  after.make = 'Ferrari';
+  after.model = '488 Pista';
+  after.tune.tires.front = '2.2';
+  after.tune.springs.front = '100';
+  after.tune.springs.rear = '90';
+  after.tune.springs.units = SpringRateUnit.lbfin;
+  after.build.engine.camshaft = Upgrade.race;
+
+  return { before, after };
+}
+
+describe('changelog-generator', () => {
+  it('should only list changed values, in both unit systems', () => {
+    const { before, after } = getRevisions();
+
+    expect(getChangelogSections(before, after, fhTuneSections)).toEqual([
+      {
+        title: 'Tires',
+        rows: [{ label: 'Front', before: '2.0 bar / 29.0 psi', after: '2.2 bar / 31.9 psi' }],
+      },
+      {
+        title: 'Springs',
+        rows: [
+          { label: 'Springs Front', before: '100.0 kgf/mm / 560.0 lbf/in', after: '17.9 kgf/mm / 100.0 lbf/in' },
+          { label: 'Springs Rear', before: '90.0 kgf/mm / 504.0 lbf/in', after: '16.1 kgf/mm / 90.0 lbf/in' },
+        ],
+      },
+    ]);
+  });
+
+  it('should leave out blank values that only changed units', () => {
+    const { before, after } = getRevisions();
+    after.tune.aero.units = ForceUnit.lbf;
+    after.tune.tires.units = PressureUnit.psi;
+    before.tune.tires.rear = '';
+    after.tune.tires.rear = '';
+
+    const sections = getChangelogSections(before, after, fhTuneSections);
+
+    expect(sections.map(({ title }) => title)).toEqual(['Tires', 'Springs']);
+    expect(sections[0].rows.map(({ label }) => label)).toEqual(['Front']);
+  });
+
+  it('should leave out values converted to other units', () => {
+    const { before, after } = getRevisions();
+    after.tune.tires.front = '29.0';
+    after.tune.tires.units = PressureUnit.psi;
+    after.tune.springs.front = '560.0';
+    after.tune.springs.rear = '505.0';
+
+    expect(getChangelogSections(before, after, fhTuneSections)).toEqual([
+      {
+        title: 'Springs',
+        rows: [{ label: 'Springs Rear', before: '90.0 kgf/mm / 504.0 lbf/in', after: '90.2 kgf/mm / 505.0 lbf/in' }],
+      },
+    ]);
+  });
+
+  it('should generate a reddit changelog', () => {
+    const { before, after } = getRevisions();
+
+    const text = fhRedditChangelogGenerator(before, after, { from: 'v1.2', to: 'v1.3' }, 'https://optn.club');
+
+    expect(text).toContain('#Ferrari 488 Pista - Tune v1.2 → v1.3');
+    expect(text).toContain('|**Engine**|**Before**|**After**|');
+    expect(text).toContain('|Camshaft|Sport|Race|');
+    expect(text).toContain('|Front|2.0 bar / 29.0 psi|2.2 bar / 31.9 psi|');
+  });
+
+  it('should generate a discord changelog', () => {
+    const { before, after } = getRevisions();
+
+    const text = fhDiscordChangelogGenerator(before, after, { from: 'v1.2', to: 'v1.3' }, 'https://optn.club');
+
+    expect(text.split('\n')).toEqual([
+      '**Ferrari 488 Pista - Tune v1.2 → v1.3**',
+      '**Upgrades**',
+      '```',
+      '== Engine ==',
+      'Camshaft  Sport → Race',
+      '',
+      '```',
+      '**Tune**',
+      '```',
+      '== Tires ==',
+      'Front  2.0 bar / 29.0 psi → 2.2 bar / 31.9 psi',
+      '',
+      '== Springs ==',
+      'Springs Front  100.0 kgf/mm / 560.0 lbf/in → 17.9 kgf/mm / 100.0 lbf/in',
+      'Springs Rear   90.0 kgf/mm / 504.0 lbf/in  → 16.1 kgf/mm / 90.0 lbf/in',
+      '',
+      '```',
+      'https://optn.club',
+    ]);
+  });
+});
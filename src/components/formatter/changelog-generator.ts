@@ -0,0 +1,188 @@
+import diffForms, { DiffSection, FieldChange, getFormValue } from '../../lib/formDiff';
+import { UnitOfMeasure } from '../../lib/types';
+import { formatUnit } from '../../lib/unitsOfMeasure';
+
+export interface ChangelogRevisions {
+  from: string;
+  to: string;
+}
+
+export interface ChangelogRow {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface ChangelogSection {
+  title: string;
+  rows: ChangelogRow[];
+}
+
+interface UnitSettings {
+  front: string;
+  rear: string;
+  units: UnitOfMeasure;
+}
+
+function getParentPath(path: string) {
+  return path.split('.').slice(0, -1).join('.');
+}
+
+function getUnitSettings(form: object, path: string): UnitSettings | undefined {
+  const parent = getFormValue(form, getParentPath(path)) as UnitSettings | undefined;
+  return parent && typeof parent === 'object' && 'units' in parent ? parent : undefined;
+}
+
+function formatValue(form: object, path: string, value: unknown): string {
+  if (value === true) return 'Yes';
+  if (value === false) return 'No';
+  if (value === undefined || value === null || value === '') return '-';
+
+  const unitSettings = getUnitSettings(form, path);
+  const key = path.split('.').pop();
+  if (unitSettings && (key === 'front' || key === 'rear')) {
+    const formatted = formatUnit(value as string, unitSettings.units, 1, true);
+    if (formatted.every((text) => /\d/.test(text))) return formatted.join(' / ');
+  }
+
+  return `${value}`;
+}
+
+function formatUnitValues(form: object, path: string): string[] | undefined {
+  const unitSettings = getUnitSettings(form, path);
+  const value = getFormValue(form, path);
+  if (!unitSettings || !value || typeof value !== 'string') return undefined;
+  return formatUnit(value, unitSettings.units, 1, true);
+}
+
+/**
+ * Values converted to other units are the same value, if they match in either unit system
+ */
+function isSameValue(before: object, after: object, path: string): boolean {
+  const beforeValues = formatUnitValues(before, path);
+  const afterValues = formatUnitValues(after, path);
+  if (!beforeValues || !afterValues) return false;
+  return beforeValues.some((text, index) => text === afterValues[index]);
+}
+
+/**
+ * Changing the units of a value changes the value, even if the number stayed the same.
+ * Unit changes are listed as front and rear changes, which are shown in both unit systems.
+ */
+function expandUnitChanges(changes: FieldChange[]): string[] {
+  const paths = new Set<string>();
+  changes.forEach((change) => {
+    if (!change.path.endsWith('.units')) {
+      paths.add(change.path);
+      return;
+    }
+    const parentPath = getParentPath(change.path);
+    paths.add(`${parentPath}.front`);
+    paths.add(`${parentPath}.rear`);
+  });
+  return [...paths].sort();
+}
+
+function getRowLabel(changes: FieldChange[], path: string): string {
+  const change = changes.find((candidate) => candidate.path === path);
+  if (change) return change.label;
+
+  const unitsChange = changes.find((candidate) => candidate.path === `${getParentPath(path)}.units`) as FieldChange;
+  return unitsChange.label.replace(/Units$/, path.endsWith('.front') ? 'Front' : 'Rear');
+}
+
+/**
+ * Returns the changed values between two revisions of a form, formatted for display.
+ * Switching the units of a value isn't a change worth listing, so rows that are empty
+ * before and after, or the same value in other units, are left out.
+ */
+export function getChangelogSections(before: object, after: object, sections: DiffSection[]): ChangelogSection[] {
+  return diffForms(before, after, sections)
+    .map((section) => ({
+      title: section.title,
+      rows: expandUnitChanges(section.changes)
+        .filter((path) => !isSameValue(before, after, path))
+        .map((path) => ({
+          label: getRowLabel(section.changes, path),
+          before: formatValue(before, path, getFormValue(before, path)),
+          after: formatValue(after, path, getFormValue(after, path)),
+        }))
+        .filter((row) => row.before !== '-' || row.after !== '-'),
+    }))
+    .filter((section) => section.rows.length);
+}
+
+export function formatChangelogTitle(make: string, model: string, revisions: ChangelogRevisions) {
+  const car = [make, model].filter((val) => val).join(' ');
+  const title = `Tune ${revisions.from} → ${revisions.to}`;
+  return car ? `${car} - ${title}` : title;
+}
+
+function formatRedditTable(section: ChangelogSection): string[] {
+  return [
+    `|**${section.title}**|**Before**|**After**|`,
+    '|:--|--:|--:|',
+    ...section.rows.map((row) => `|${row.label}|${row.before}|${row.after}|`),
+    '\n######\n',
+  ];
+}
+
+export function formatRedditChangelog(
+  title: string,
+  tune: ChangelogSection[],
+  upgrades: ChangelogSection[],
+  linkUrl: string,
+): string {
+  const lines = [`#${title}\n`, `[View this tune on optn.club](${linkUrl})\n`];
+
+  if (tune.length === 0 && upgrades.length === 0) {
+    lines.push('No changes.\n');
+  }
+  if (upgrades.length) {
+    lines.push('---\n', '## Upgrades\n', ...upgrades.flatMap(formatRedditTable));
+  }
+  if (tune.length) {
+    lines.push('---\n', '## Tune\n', ...tune.flatMap(formatRedditTable));
+  }
+
+  lines.push(
+    '---\n',
+    'Formatted text generated by the [OPTN.club Tune Formatter](https://optn.club/formatter)',
+  );
+
+  return lines.join('\n');
+}
+
+function formatDiscordSection(section: ChangelogSection): string[] {
+  const labelWidth = Math.max(...section.rows.map((row) => row.label.length));
+  const beforeWidth = Math.max(...section.rows.map((row) => row.before.length));
+
+  return [
+    `== ${section.title} ==`,
+    ...section.rows.map((row) => `${row.label.padEnd(labelWidth)}  ${row.before.padEnd(beforeWidth)} → ${row.after}`),
+    '',
+  ];
+}
+
+export function formatDiscordChangelog(
+  title: string,
+  tune: ChangelogSection[],
+  upgrades: ChangelogSection[],
+  linkUrl: string,
+): string {
+  const lines = [`**${title}**`];
+
+  if (tune.length === 0 && upgrades.length === 0) {
+    lines.push('No changes.');
+  }
+  if (upgrades.length) {
+    lines.push('**Upgrades**', '```', ...upgrades.flatMap(formatDiscordSection), '```');
+  }
+  if (tune.length) {
+    lines.push('**Tune**', '```', ...tune.flatMap(formatDiscordSection), '```');
+  }
+
+  lines.push(linkUrl);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import getTestForm, { getFMTestForm } from '../../lib/testForm';
+
+import { DiscordEmbed, embedLimits, getDiscordMessages } from './discord-embed-output';
+import getFHSetupDocument from './horizon/fh-setup-document';
+import { FHPIClass } from './horizon/FHSetup';
+import fmDiscordEmbedGenerator from './motorsport/fm-discord-embed-generator';
+import { DocumentSection, listTable, textCell } from './setup-document';
+
+const LINK_URL = 'https://optn.club/formatter/forza/horizon5/v1/test';
+
+function getLength(embed: DiscordEmbed) {
+  return (embed.title?.length ?? 0) +
+    (embed.description?.length ?? 0) +
+    (embed.footer?.text.length ?? 0) +
+    embed.fields.reduce((sum, field) => sum + field.name.length + field.value.length, 0);
+}
+
+describe('discord-embed-output', () => {
+  it('should title and color the embed from the car and its class', () => {
+    const form = getTestForm();
+    form.stats.classification = FHPIClass.S2;
+    form.stats.pi = '998';
+    form.stats.shareCode = '123 456 789';
+
+    const [message] = getDiscordMessages(getFHSetupDocument(form, 'Metric', LINK_URL));
+    const [embed] = message.embeds;
+
+    expect(embed.title).toBe('Ferrari 2019 Ferrari 488 Pista - S2 998');
+    expect(embed.url).toBe(LINK_URL);
+    expect(embed.color).toBe(0x165edb);
+    expect(embed.fields.map(({ name }) => name)).toEqual([
+      'Share Code',
+      'Tires',
+      'Gearing',
+      'Alignment',
+      'Anti-roll Bars',
+      'Springs',
+      'Damping',
+      'Aero',
+      'Differential',
+    ]);
+    expect(embed.fields[1].value).toBe('```\nF  2.0 bar / 29.0 psi\nR  2.0 bar / 29.0 psi\n```');
+    expect(embed.footer?.text).toBe('Formatted using the OPTN.club Tune Formatter');
+  });
+
+  it('should render the messages as JSON', () => {
+    const messages = JSON.parse(fmDiscordEmbedGenerator(getFMTestForm(), 'Imperial', LINK_URL));
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].embeds[0].description).toContain('Weight    454 kg  / 1000 lbs');
+  });
+
+  it('should split long tunes within the limits of Discord', () => {
+    const document = getFHSetupDocument(getTestForm(), 'Metric', LINK_URL);
+    const extra: DocumentSection[] = Array.from({ length: 60 }, (_, index) => ({
+      title: `Section ${index}`,
+      tables: [listTable('Notes', Array.from({ length: 20 }, (__, row) => ({
+        label: `Note ${row}`,
+        cells: [textCell('A long note about this setting that takes up space')],
+      })))],
+    }));
+    document.tune.push(...extra);
+
+    const messages = getDiscordMessages(document);
+    const embeds = messages.flatMap((message) => message.embeds);
+    const fields = embeds.flatMap((embed) => embed.fields);
+
+    expect(messages.length).toBeGreaterThan(1);
+    expect(embeds[0].title).toBeDefined();
+    expect(embeds.slice(1).every((embed) => embed.title === undefined)).toBe(true);
+    expect(embeds[embeds.length - 1].footer).toBeDefined();
+
+    messages.forEach((message) => {
+      expect(message.embeds.length).toBeLessThanOrEqual(embedLimits.embedsPerMessage);
+      expect(message.embeds.reduce((sum, embed) => sum + getLength(embed), 0)).toBeLessThanOrEqual(embedLimits.characters);
+    });
+    embeds.forEach((embed) => expect(embed.fields.length).toBeLessThanOrEqual(embedLimits.fields));
+    fields.forEach((field) => expect(field.value.length).toBeLessThanOrEqual(embedLimits.fieldValue));
+
+    expect(fields.filter(({ name }) => name === 'Section 59 (cont.)')).toHaveLength(1);
+    expect(fields[fields.length - 1].name).toBe('Section 59 (cont.)');
+  });
+});
@@ -0,0 +1,154 @@
+import { getClassColor } from '../../lib/carClasses';
+
+import { formatSectionTables, formatStatistics } from './discord-output';
+import { OutputTarget, SetupDocument } from './setup-document';
+
+/**
+ * https://discord.com/developers/docs/resources/message#embed-object-embed-limits
+ */
+export const embedLimits = {
+  title: 256,
+  description: 4096,
+  fields: 25,
+  fieldName: 256,
+  fieldValue: 1024,
+  footer: 2048,
+  /**
+   * Shared by all the embeds of a message
+   */
+  characters: 6000,
+  embedsPerMessage: 10,
+};
+
+export interface DiscordEmbedField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+export interface DiscordEmbed {
+  title?: string;
+  url?: string;
+  description?: string;
+  color: number;
+  fields: DiscordEmbedField[];
+  footer?: { text: string };
+}
+
+export interface DiscordMessage {
+  embeds: DiscordEmbed[];
+}
+
+// OPTN Livery Teal, for the classes the game has no color for
+const DEFAULT_COLOR = 0x0085a3;
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
+
+function codeBlock(lines: string[]): string {
+  return `\`\`\`\n${lines.join('\n')}\n\`\`\``;
+}
+
+/**
+ * Sections too long for one field continue in the next, split between lines
+ */
+function getSectionFields(name: string, lines: string[]): DiscordEmbedField[] {
+  const maxLength = embedLimits.fieldValue - codeBlock([]).length;
+  const chunks = lines
+    .map((line) => truncate(line, maxLength))
+    .reduce<string[][]>((result, line) => {
+      const chunk = result[result.length - 1];
+      if (chunk && [...chunk, line].join('\n').length <= maxLength) {
+        chunk.push(line);
+      } else {
+        result.push([line]);
+      }
+      return result;
+    }, []);
+
+  return chunks.map((chunk, index) => ({
+    name: truncate(index === 0 ? name : `${name} (cont.)`, embedLimits.fieldName),
+    value: codeBlock(chunk),
+  }));
+}
+
+function getEmbedLength(embed: DiscordEmbed): number {
+  return (embed.title?.length ?? 0) +
+    (embed.description?.length ?? 0) +
+    (embed.footer?.text.length ?? 0) +
+    embed.fields.reduce((sum, field) => sum + field.name.length + field.value.length, 0);
+}
+
+/**
+ * The first embed has the title, link and stats, the fields then fill as many embeds as the limits need
+ */
+function getEmbeds(document: SetupDocument): DiscordEmbed[] {
+  const classColor = getClassColor(document.classification);
+  const color = classColor ? parseInt(classColor.slice(1), 16) : DEFAULT_COLOR;
+  const stats = formatStatistics(document.stats).filter((line) => line);
+
+  const fields: DiscordEmbedField[] = [
+    ...(document.shareCode ? [{ name: 'Share Code', value: document.shareCode, inline: true }] : []),
+    ...document.tune.flatMap((section) => {
+      const lines = formatSectionTables(section).filter((line) => line);
+      return lines.length ? getSectionFields(section.title, lines) : [];
+    }),
+  ];
+
+  const first: DiscordEmbed = {
+    title: truncate([document.car, document.rating].filter((val) => val).join(' - '), embedLimits.title),
+    url: document.linkUrl || undefined,
+    description: stats.length ? truncate(codeBlock(stats), embedLimits.description) : undefined,
+    color,
+    fields: [],
+  };
+  const footer = { text: truncate(`Formatted using the OPTN.club ${document.formatter.name}`, embedLimits.footer) };
+
+  const embeds = fields.reduce<DiscordEmbed[]>((result, field) => {
+    const embed = result[result.length - 1];
+    const fits = embed.fields.length < embedLimits.fields &&
+      getEmbedLength(embed) + field.name.length + field.value.length + footer.text.length <= embedLimits.characters;
+
+    if (fits) {
+      embed.fields.push(field);
+    } else {
+      result.push({ color, fields: [field] });
+    }
+    return result;
+  }, [first]);
+
+  embeds[embeds.length - 1].footer = footer;
+
+  return embeds;
+}
+
+/**
+ * Embeds are grouped into as few messages as the limits allow
+ */
+export function getDiscordMessages(document: SetupDocument): DiscordMessage[] {
+  return getEmbeds(document).reduce<DiscordMessage[]>((messages, embed) => {
+    const message = messages[messages.length - 1];
+    const length = message?.embeds.reduce((sum, current) => sum + getEmbedLength(current), 0) ?? 0;
+
+    if (message && message.embeds.length < embedLimits.embedsPerMessage && length + getEmbedLength(embed) <= embedLimits.characters) {
+      message.embeds.push(embed);
+    } else {
+      messages.push({ embeds: [embed] });
+    }
+    return messages;
+  }, []);
+}
+
+/**
+ * A JSON array of message payloads, each can be posted to a webhook as is
+ */
+export function formatDiscordEmbeds(document: SetupDocument): string {
+  return JSON.stringify(getDiscordMessages(document), null, 2);
+}
+
+export const discordEmbedOutput: OutputTarget = {
+  id: 'discord-embed',
+  label: 'Discord Embed',
+  render: formatDiscordEmbeds,
+};
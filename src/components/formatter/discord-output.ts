@@ -0,0 +1,232 @@
+import { formatUnit } from '../../lib/unitsOfMeasure';
+import { formatFloat } from '../../lib/utils';
+
+import {
+  DocumentCell,
+  DocumentRow,
+  DocumentSection,
+  DocumentTable,
+  formatCellValue,
+  OutputTarget,
+  SetupDocument,
+  showValue,
+} from './setup-document';
+
+const tableSeparator = '';
+
+enum TextAlign {
+  left = ':--',
+  right = '--:',
+}
+
+function bold(value: string): string {
+  if (!value) return value;
+  return `** ${value.replace(/\*\*/g, '')} **`;
+}
+
+function h1(text: string): string {
+  return `== ${text} ==\n`;
+}
+
+function h2(text: string): string {
+  return `-- ${text} --`;
+}
+
+function getColumnWidths(rows: string[][]) {
+  const widths = Array.from({ length: rows[0].length }, () => 0);
+  rows.forEach((row) => {
+    row.forEach((cell, index) => {
+      widths[index] = Math.max(widths[index], cell.length);
+    });
+  });
+  return widths;
+}
+
+function formatTableRow(row: string[], widths: number[], alignment = TextAlign.left) {
+  const rowText = row.map((cell, index) => {
+    const width = widths[index];
+    if (cell === '/') {
+      return cell;
+    }
+    if (alignment === TextAlign.left) {
+      return cell.padEnd(width);
+    }
+    return cell.padStart(width);
+  });
+  return rowText.join(' ').trim();
+}
+
+function formatTable(header: string, body: string[][], alignment = TextAlign.left): string[] {
+  if (body.length === 0) return [];
+  const widths = getColumnWidths(body);
+  const table: string[] = [];
+  if (header) table.push(h2(header));
+  table.push(...body.map((row) => formatTableRow(row, widths, alignment)));
+  table.push(tableSeparator);
+
+  return table;
+}
+
+function separate(values: string[], separator: string) {
+  const separated: string[] = [];
+  for (let index = 0; index < values.length; index++) {
+    separated.push(values[index]);
+    if (index < values.length - 1) {
+      separated.push(separator);
+    }
+  }
+  return separated;
+}
+
+function getLabel(row: DocumentRow) {
+  return row.shortLabel ?? row.label;
+}
+
+/**
+ * Values that are not set, or are left at the game's default, are not shown
+ */
+function formatCell(cell: DocumentCell): string[] | undefined {
+  switch (cell.kind) {
+    case 'text':
+      return showValue(cell.value) && cell.value !== cell.defaultValue ? [cell.value] : undefined;
+    case 'number':
+      return showValue(cell.value) && cell.value !== cell.defaultValue ? [formatFloat(cell.value, cell.precision, cell.suffix)] : undefined;
+    case 'unit':
+      return showValue(cell.value) ? separate(formatUnit(cell.value, cell.units, cell.precision, true), '/') : undefined;
+    case 'frontRear':
+      if (!showValue(cell.front) && !showValue(cell.rear)) return undefined;
+      return [`F ${cell.front ? `${cell.front}${cell.shortSuffix}` : 'Stock'} / R ${cell.rear ? `${cell.rear}${cell.shortSuffix}` : 'Stock'}`];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Each setting is shown as its own front and rear table, settings with a single value as a line.  Values with
+ * units are right aligned.
+ */
+function formatAxleTable(table: DocumentTable, title: string): string[] {
+  if (table.notApplicable) return [];
+
+  const [front, rear] = table.rows;
+  const tables: string[] = [];
+  const lines: string[] = [];
+
+  table.columns.forEach((column, index) => {
+    const header = column || title;
+    const frontCell = front.cells[index];
+    const rearCell = rear.cells[index];
+
+    if (rearCell.kind === 'empty') {
+      if (frontCell.kind !== 'empty' && frontCell.kind !== 'frontRear' && showValue(frontCell.value)) {
+        lines.push(`${header} ${frontCell.value}${frontCell.kind === 'number' ? frontCell.suffix : ''}`);
+      }
+      return;
+    }
+
+    if (frontCell.kind === 'number' && rearCell.kind === 'number') {
+      if (!showValue(frontCell.value) && !showValue(rearCell.value)) return;
+      tables.push(...formatTable(header, [
+        [getLabel(front), formatFloat(frontCell.value, frontCell.precision, frontCell.suffix)],
+        [getLabel(rear), formatFloat(rearCell.value, rearCell.precision, rearCell.suffix)],
+      ], table.align === 'right' ? TextAlign.right : TextAlign.left));
+      return;
+    }
+
+    const body: string[][] = [];
+    [front, rear].forEach((row) => {
+      const cells = formatCell(row.cells[index]);
+      if (cells) body.push([getLabel(row), ...cells]);
+    });
+    tables.push(...formatTable(header, body, TextAlign.right));
+  });
+
+  if (lines.length) lines.push('');
+
+  return [...tables, ...lines];
+}
+
+/**
+ * Rows without a value to show are left out.  Tables with several columns show a header and `-` for
+ * the missing values, rows with a single value are shown as a line.
+ */
+function formatListTable(table: DocumentTable, title: string): string[] {
+  if (table.notApplicable) return [];
+
+  const multiColumn = table.columns.length > 1;
+  const body: string[][] = [];
+  const lines: string[] = [];
+
+  table.rows.forEach((row) => {
+    const cells = row.cells.filter((cell) => cell.kind !== 'empty').map(formatCell);
+    if (cells.every((cell) => !cell)) return;
+
+    if (multiColumn && cells.length === 1) {
+      lines.push(`${getLabel(row)} ${(cells[0] as string[]).join(' ')}`);
+      return;
+    }
+    body.push([getLabel(row), ...cells.flatMap((cell) => cell ?? ['-'])]);
+  });
+
+  if (multiColumn && body.length) {
+    body.unshift(['-', ...table.columns]);
+  }
+  if (lines.length) lines.push('');
+
+  return [...formatTable(title, body), ...lines];
+}
+
+/**
+ * The tables of a section, without its title
+ */
+export function formatSectionTables(section: DocumentSection): string[] {
+  const tables = section.compactTables ?? section.tables;
+  return tables.flatMap((table) => {
+    // Tables are only told apart when a section has several
+    const title = tables.length > 1 ? table.title : '';
+    return table.layout === 'axles' ? formatAxleTable(table, title) : formatListTable(table, title);
+  });
+}
+
+function formatSection(section: DocumentSection): string[] {
+  const lines = formatSectionTables(section);
+
+  if (lines.length === 0) return [];
+
+  return [h1(section.title), ...lines];
+}
+
+export function formatStatistics(stats: DocumentRow[]) {
+  const body = stats.map((row) => [row.label, ...row.cells.flatMap((cell) => formatCell(cell) ?? [])]);
+
+  if (body.length === 0) return [];
+
+  return formatTable('', body);
+}
+
+function formatShareCodes(shareCodes: DocumentRow[]) {
+  return formatTable('', shareCodes.map((row) => [row.label, ...row.cells.map(formatCellValue)]));
+}
+
+function formatCodeBlock(title: string, lines: string[]) {
+  if (lines.length === 0) return [];
+  return [bold(title), '```', ...lines, '```'];
+}
+
+export function formatDiscordPost(document: SetupDocument) {
+  return [
+    `**${document.car} - ${document.rating}**\n`,
+    ...formatCodeBlock('Stats', formatStatistics(document.stats)),
+    ...formatCodeBlock('Share Codes', formatShareCodes(document.shareCodes)),
+    ...formatCodeBlock('Upgrades', document.compactBuild.flatMap(formatSection)),
+    ...formatCodeBlock('Tune', document.tune.flatMap(formatSection)),
+    'Formatted using:',
+    document.formatter.discordUrl,
+  ].join('\n');
+}
+
+export const discordOutput: OutputTarget = {
+  id: 'discord',
+  label: 'Discord',
+  render: formatDiscordPost,
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import getTestForm, { getFMTestForm } from '../../lib/testForm';
+import { DriveType, GlobalUnit } from '../../lib/types';
+
+import fhDiscordGenerator from './horizon/fh-discord-generator';
+import fhRedditGenerator from './horizon/fh-reddit-generator';
+import getFHDefaultFormV1, { FHSetup } from './horizon/FHSetup';
+import fmDiscordGenerator from './motorsport/fm-discord-generator';
+import fmRedditGenerator from './motorsport/fm-reddit-generator';
+import { FMSetup, getFMFormFactory } from './motorsport/FMSetup';
+
+const LINK_URL = 'https://optn.club/formatter/forza/horizon5/v1/test';
+
+function withDrivetrain(drivetrain: DriveType): FHSetup {
+  const form = getTestForm();
+  form.build.conversions.drivetrain = drivetrain;
+  return form;
+}
+
+function withShareCode<T extends { stats: { shareCode: string } }>(form: T): T {
+  form.stats.shareCode = '123 456 789,987 654 321';
+  return form;
+}
+
+const fhForms: Record<string, () => FHSetup> = {
+  test: getTestForm,
+  default: getFHDefaultFormV1,
+  fwd: () => withDrivetrain(DriveType.fwd),
+  rwd: () => withDrivetrain(DriveType.rwd),
+  'share code': () => withShareCode(getTestForm()),
+};
+
+const fmForms: Record<string, () => FMSetup> = {
+  test: () => getFMTestForm() as FMSetup,
+  default: () => getFMFormFactory()() as FMSetup,
+  'share code': () => withShareCode(getFMTestForm() as FMSetup),
+};
+
+/**
+ * The snapshots were written by the generators from before posts were rendered from a setup document,
+ * so a change to them is a change to the published posts.  The FM wheel style is the one fix, the old
+ * Reddit generator printed it twice.
+ */
+describe.each<GlobalUnit>(['Metric', 'Imperial'])('golden outputs in %s', (globalUnit) => {
+  Object.entries(fhForms).forEach(([name, getForm]) => {
+    it(`should format the ${name} FH form as before`, () => {
+      expect(fhRedditGenerator(getForm(), globalUnit, LINK_URL)).toMatchSnapshot('reddit');
+      expect(fhDiscordGenerator(getForm(), globalUnit, LINK_URL)).toMatchSnapshot('discord');
+    });
+  });
+
+  Object.entries(fmForms).forEach(([name, getForm]) => {
+    it(`should format the ${name} FM form as before`, () => {
+      expect(fmRedditGenerator(getForm(), globalUnit, LINK_URL)).toMatchSnapshot('reddit');
+      expect(fmDiscordGenerator(getForm(), globalUnit, LINK_URL)).toMatchSnapshot('discord');
+    });
+  });
+});
@@ -1,3 +1,6 @@
+import { packedFormSerializer } from '../../../lib/bitPackedForm';
+import { DiffSection } from '../../../lib/formDiff';
+import createMigrationRegistry from '../../../lib/migrations';
 import {
   AeroAndAppearanceUpgrades,
   BrakeTuneSettings,
@@ -11,6 +14,7 @@ import {
   GearTuneSettings,
   LengthUnit,
   LimitedUpgrade,
+  NumericString,
   PressureUnit,
   RestrictorUpgrade,
   RimStyleType,
@@ -21,7 +25,7 @@ import {
   TurboUpgrade,
   Upgrade,
 } from '../../../lib/types';
-import { FormEncoderOptions } from '../../../lib/useFormEncoder';
+import { FormEncoderOptions, FormEncoding } from '../../../lib/useFormEncoder';
 
 export enum FHPIClass {
   D = 'D',
@@ -108,29 +112,29 @@ export interface DrivetrainUpgrades extends BuildSectionUpgrades {
 export interface TuneSettings {
   tires: FrontAndRearWithUnits<PressureUnit>;
   gears: GearTuneSettings;
-  camber: FrontAndRearSettings;
-  toe: FrontAndRearSettings;
-  caster: string;
-  arb: FrontAndRearSettings;
+  camber: FrontAndRearSettings<NumericString>;
+  toe: FrontAndRearSettings<NumericString>;
+  caster: NumericString;
+  arb: FrontAndRearSettings<NumericString>;
   springs: FrontAndRearWithUnits<SpringRateUnit>;
   rideHeight: FrontAndRearWithUnits<LengthUnit>;
-  damping: FrontAndRearSettings;
-  bump: FrontAndRearSettings;
+  damping: FrontAndRearSettings<NumericString>;
+  bump: FrontAndRearSettings<NumericString>;
   aero: FrontAndRearWithUnits<ForceUnit>;
   brake: BrakeTuneSettings;
   diff: DifferentialTuneSettings;
 }
 
 export interface TuneStatistics {
-  pi: string;
+  pi: NumericString;
   classification: FHPIClass;
-  hp: string;
-  torque: string;
-  weight: string;
-  balance: string;
-  topSpeed: string;
-  zeroToSixty: string;
-  zeroToHundred: string;
+  hp: NumericString;
+  torque: NumericString;
+  weight: NumericString;
+  balance: NumericString;
+  topSpeed: NumericString;
+  zeroToSixty: NumericString;
+  zeroToHundred: NumericString;
   shareCode: string;
 }
 
@@ -151,8 +155,19 @@ export interface FHSetup {
   stats: TuneStatistics;
 }
 
-export function getEncoderOptions(version: string): FormEncoderOptions {
-  return { getDefaultForm: () => getFHDefaultForm(version) as unknown as Record<string, never> };
+/**
+ * Formatter links are always packed, `keyed` is only here so the encodings can be compared in tests.
+ *
+ * Packed values are positional, so the fields of a form version must not change once its links are
+ * shared.  Adding, removing or renaming a field needs a new version in `defaultFormMap` and a
+ * migration to it from the previous one, the fields of each version are pinned in `bitPackedForm.spec.ts`.
+ */
+export function getEncoderOptions(version: string, encoding: FormEncoding = 'packed'): FormEncoderOptions {
+  return {
+    getDefaultForm: () => getFHDefaultForm(version) as unknown as Record<string, never>,
+    schema: `fh5/${defaultFormMap[version] ? version : 'v1'}`,
+    ...(encoding === 'keyed' ? { keyed: true } : packedFormSerializer),
+  };
 }
 
 export function getFHDefaultForm(version: string): FHSetup {
@@ -172,6 +187,36 @@ const defaultFormMap: DefaultFormMap<FHSetup> = {
   v1: getFHDefaultFormV1,
 };
 
+export const fhMigrations = createMigrationRegistry<FHSetup>('v1', []);
+
+/**
+ * Compare view sections, in the same order as the generated tune
+ */
+export const fhTuneSections: DiffSection[] = [
+  { title: 'Tires', paths: ['tune.tires'] },
+  { title: 'Gearing', paths: ['tune.gears'] },
+  { title: 'Alignment', paths: ['tune.camber', 'tune.toe', 'tune.caster'] },
+  { title: 'Anti-roll Bars', paths: ['tune.arb'] },
+  { title: 'Springs', paths: ['tune.springs', 'tune.rideHeight'] },
+  { title: 'Damping', paths: ['tune.damping', 'tune.bump'] },
+  { title: 'Aero', paths: ['tune.aero'] },
+  { title: 'Brakes', paths: ['tune.brake'] },
+  { title: 'Differential', paths: ['tune.diff'] },
+];
+
+export const fhUpgradeSections: DiffSection[] = [
+  { title: 'Conversions', paths: ['build.conversions'] },
+  { title: 'Engine', paths: ['build.engine'] },
+  { title: 'Platform And Handling', paths: ['build.platformAndHandling'] },
+  { title: 'Tires', paths: ['build.tiresAndRims.compound', 'build.tiresAndRims.width'] },
+  {
+    title: 'Wheels',
+    paths: ['build.tiresAndRims.rimStyle', 'build.tiresAndRims.rimSize', 'build.tiresAndRims.trackWidth', 'build.tiresAndRims.profileSize'],
+  },
+  { title: 'Drivetrain', paths: ['build.drivetrain'] },
+  { title: 'Aero and Appearance', paths: ['build.aeroAndAppearance'] },
+];
+
 export default function getFHDefaultFormV1(): FHSetup {
   return {
     make: '',
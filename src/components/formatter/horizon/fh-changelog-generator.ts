@@ -0,0 +1,21 @@
+import { ChangelogRevisions, formatChangelogTitle, formatDiscordChangelog, formatRedditChangelog, getChangelogSections } from '../changelog-generator';
+
+import { FHSetup, fhTuneSections, fhUpgradeSections } from './FHSetup';
+
+function getChangelog(before: FHSetup, after: FHSetup, revisions: ChangelogRevisions) {
+  return {
+    title: formatChangelogTitle(after.make, after.model, revisions),
+    tune: getChangelogSections(before, after, fhTuneSections),
+    upgrades: getChangelogSections(before, after, fhUpgradeSections),
+  };
+}
+
+export function fhRedditChangelogGenerator(before: FHSetup, after: FHSetup, revisions: ChangelogRevisions, linkUrl: string) {
+  const { title, tune, upgrades } = getChangelog(before, after, revisions);
+  return formatRedditChangelog(title, tune, upgrades, linkUrl);
+}
+
+export function fhDiscordChangelogGenerator(before: FHSetup, after: FHSetup, revisions: ChangelogRevisions, linkUrl: string) {
+  const { title, tune, upgrades } = getChangelog(before, after, revisions);
+  return formatDiscordChangelog(title, tune, upgrades, linkUrl);
+}
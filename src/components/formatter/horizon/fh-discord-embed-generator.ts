@@ -0,0 +1,9 @@
+import { GlobalUnit } from '../../../lib/types';
+import renderSetup from '../output-targets';
+
+import getFHSetupDocument from './fh-setup-document';
+import { FHSetup } from './FHSetup';
+
+export default function fhDiscordEmbedGenerator(form: FHSetup, globalUnit: GlobalUnit, linkUrl: string) {
+  return renderSetup('discord-embed', getFHSetupDocument(form, globalUnit, linkUrl));
+}
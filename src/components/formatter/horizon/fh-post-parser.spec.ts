@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import getTestForm from '../../../lib/testForm';
+import { SpringRateUnit } from '../../../lib/types';
+
+import fhDiscordGenerator from './fh-discord-generator';
+import parseFHPost, { parseFHDiscordPost, parseFHRedditPost } from './fh-post-parser';
+import fhRedditGenerator from './fh-reddit-generator';
+
+const LINK_URL = 'https://optn.club/formatter/forza/horizon5/v1/test';
+
+/**
+ * The test form leaves out a few `na` flags, which the parsed form always has
+ */
+function getExpectedForm() {
+  const form = getTestForm();
+  const { tune } = form;
+  [tune.arb, tune.springs, tune.rideHeight, tune.damping, tune.bump, tune.aero, tune.diff].forEach((setting) => {
+    setting.na = false;
+  });
+  return form;
+}
+
+describe('fh-post-parser', () => {
+  it('should parse a Reddit post back into the form', () => {
+    const post = fhRedditGenerator(getTestForm(), 'Metric', LINK_URL);
+
+    const expected = getExpectedForm();
+    // With an aspiration conversion, an empty body kit is shown as Stock
+    expected.build.conversions.bodyKit = 'Stock';
+
+    expect(parseFHRedditPost(post)).toEqual(expected);
+  });
+
+  it('should parse a Discord post back into the form', () => {
+    const post = fhDiscordGenerator(getTestForm(), 'Metric', LINK_URL);
+
+    const expected = getExpectedForm();
+    // N/A upgrades are left out like Stock ones, so they are read back as Stock
+    Object.assign(expected.build.aeroAndAppearance, { rearBumper: 'Stock', sideSkirts: 'Stock', hood: 'Stock' });
+
+    expect(parseFHDiscordPost(post)).toEqual(expected);
+  });
+
+  it('should detect the units the tune was entered in', () => {
+    const form = getTestForm();
+    form.tune.springs.units = SpringRateUnit.kgfmm;
+    form.tune.springs.front = '120.5';
+
+    const reddit = parseFHPost(fhRedditGenerator(form, 'Metric', LINK_URL));
+    const discord = parseFHPost(fhDiscordGenerator(form, 'Metric', LINK_URL));
+
+    expect(reddit.tune.springs).toEqual({ ...form.tune.springs, na: false });
+    expect(discord.tune.springs).toEqual({ ...form.tune.springs, na: false });
+  });
+});
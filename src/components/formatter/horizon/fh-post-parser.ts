@@ -0,0 +1,228 @@
+import { capitalCase } from 'change-case';
+
+import { DriveType, FrontAndRearSettings, RimStyleType } from '../../../lib/types';
+import {
+  applyDiscordDifferential,
+  applyDiscordFrontRearLines,
+  applyDiscordGears,
+  applyDiscordUnitLines,
+  applyDiscordUpgradeLines,
+  applyRedditDifferential,
+  applyRedditFrontRearTable,
+  applyRedditGears,
+  applyRedditUnitTable,
+  applyRedditUpgradeTable,
+  findSection,
+  findTable,
+  getSectionLabels,
+  getSubsection,
+  getTableRow,
+  isNotApplicable,
+  parseDiscordSections,
+  parseFrontRearCell,
+  parseFrontRearText,
+  parseLabeledLines,
+  parseNumber,
+  parsePostTitle,
+  parseRedditTables,
+  parseStatCells,
+  parseTableRows,
+  splitMakeAndModel,
+} from '../post-parser';
+import { formatLabel } from '../setup-document';
+
+import getFHDefaultFormV1, { FHPIClass, FHSetup } from './FHSetup';
+
+const statLabels = {
+  hp: 'Power',
+  torque: 'Torque',
+  weight: 'Weight',
+  balance: 'Balance',
+  topSpeed: 'Top Speed',
+  zeroToSixty: '0-60',
+  zeroToHundred: '0-100',
+};
+
+function applyTitle(form: FHSetup, text: string) {
+  const title = parsePostTitle(text);
+  const { make, model } = splitMakeAndModel(title.car);
+  form.make = make;
+  form.model = model;
+  if (Object.values(FHPIClass).includes(title.classification as FHPIClass)) {
+    form.stats.classification = title.classification as FHPIClass;
+  }
+  form.stats.pi = title.pi;
+}
+
+function parseRimStyle(text: string) {
+  const type = Object.values(RimStyleType)
+    .filter((candidate) => text === candidate || text.startsWith(`${candidate} `))
+    .sort((a, b) => b.length - a.length)[0] ?? RimStyleType.stock;
+  return { type, name: text.slice(type.length).trim() };
+}
+
+function fillStock<T extends Record<K, string>, K extends keyof T>(upgrades: T, keys: K[]) {
+  keys.filter((key) => !upgrades[key]).forEach((key) => {
+    upgrades[key] = 'Stock' as T[K];
+  });
+}
+
+export function parseFHRedditPost(text: string): FHSetup {
+  const form = getFHDefaultFormV1();
+  const tables = parseRedditTables(text);
+  const { build, tune, stats } = form;
+
+  applyTitle(form, text);
+
+  const statsTable = findTable(tables, '', 'Stats');
+  (Object.keys(statLabels) as (keyof typeof statLabels)[]).forEach((key) => {
+    const row = getTableRow(statsTable, statLabels[key]);
+    if (row) stats[key] = parseStatCells(row.slice(1));
+  });
+  stats.shareCode = getTableRow(statsTable, 'Share Code')?.[1] ?? '';
+
+  const conversions = parseTableRows(findTable(tables, 'Build', 'Conversions'), getSectionLabels(build.conversions, capitalCase));
+  build.conversions.engine = conversions.engine ?? '';
+  build.conversions.drivetrain = (conversions.drivetrain as DriveType) ?? DriveType.stock;
+  build.conversions.aspiration = conversions.aspiration ?? '';
+  build.conversions.bodyKit = conversions.bodyKit ?? '';
+
+  applyRedditUpgradeTable(findTable(tables, 'Build', 'Engine'), build.engine, capitalCase);
+  applyRedditUpgradeTable(findTable(tables, 'Build', 'Platform And Handling'), build.platformAndHandling, capitalCase);
+  applyRedditUpgradeTable(findTable(tables, 'Build', 'Drivetrain'), build.drivetrain, capitalCase);
+
+  // Posts show a single Tires And Rims table, separate Tires and Wheels tables are read too
+  const tiresAndRims = findTable(tables, 'Build', 'Tires And Rims');
+  const tireRows = parseTableRows(findTable(tables, 'Build', 'Tires') ?? tiresAndRims, { compound: 'Compound', width: 'Tire Width' });
+  if (tireRows.compound) build.tiresAndRims.compound = tireRows.compound as typeof build.tiresAndRims.compound;
+  Object.assign(build.tiresAndRims.width, parseFrontRearCell(tireRows.width, ' mm'));
+
+  const wheelRows = parseTableRows(findTable(tables, 'Build', 'Wheels') ?? tiresAndRims, {
+    type: 'Style',
+    name: 'Name',
+    rimStyle: 'Rim Style',
+    size: 'Size',
+    rimSize: 'Rim Size',
+    trackWidth: 'Track Width',
+    profileSize: 'Profile Size',
+  });
+  if (wheelRows.rimStyle !== undefined) build.tiresAndRims.rimStyle = parseRimStyle(wheelRows.rimStyle);
+  if (wheelRows.type) build.tiresAndRims.rimStyle.type = wheelRows.type as RimStyleType;
+  if (wheelRows.name !== undefined) build.tiresAndRims.rimStyle.name = wheelRows.name;
+  Object.assign(build.tiresAndRims.rimSize, parseFrontRearCell(wheelRows.size ?? wheelRows.rimSize, ' in'));
+  Object.assign(build.tiresAndRims.trackWidth, parseFrontRearCell(wheelRows.trackWidth));
+  Object.assign(build.tiresAndRims.profileSize, parseFrontRearCell(wheelRows.profileSize));
+
+  const aeroBuild = parseTableRows(findTable(tables, 'Build', 'Aero and Appearance'), getSectionLabels(build.aeroAndAppearance, capitalCase));
+  Object.assign(build.aeroAndAppearance, aeroBuild);
+
+  applyRedditUnitTable(findTable(tables, 'Tune', 'Tires'), tune.tires);
+  applyRedditGears(findTable(tables, 'Tune', 'Gears'), tune.gears);
+
+  const alignment = findTable(tables, 'Tune', 'Alignment');
+  const caster: FrontAndRearSettings = { front: '', rear: '' };
+  applyRedditFrontRearTable(alignment, [tune.camber, tune.toe, caster]);
+  tune.caster = caster.front;
+
+  applyRedditFrontRearTable(findTable(tables, 'Tune', 'ARBs'), [tune.arb]);
+  applyRedditUnitTable(findTable(tables, 'Tune', 'Springs'), tune.springs);
+  applyRedditUnitTable(findTable(tables, 'Tune', 'Ride Height'), tune.rideHeight);
+  applyRedditFrontRearTable(findTable(tables, 'Tune', 'Damping'), [tune.damping, tune.bump]);
+  applyRedditUnitTable(findTable(tables, 'Tune', 'Aero'), tune.aero);
+
+  const brakes = findTable(tables, 'Tune', 'Brakes');
+  if (brakes && !isNotApplicable(brakes)) {
+    tune.brake.bias = parseNumber(getTableRow(brakes, 'Balance')?.[1]);
+    tune.brake.pressure = parseNumber(getTableRow(brakes, 'Pressure')?.[1]);
+  }
+
+  applyRedditDifferential(findTable(tables, 'Tune', 'Differential'), tune.diff);
+
+  return form;
+}
+
+export function parseFHDiscordPost(text: string): FHSetup {
+  const form = getFHDefaultFormV1();
+  const sections = parseDiscordSections(text);
+  const { build, tune, stats } = form;
+
+  applyTitle(form, text);
+
+  const statLines = findSection(sections, 'Stats', '')?.lines ?? [];
+  Object.entries(parseLabeledLines(statLines, statLabels)).forEach(([key, value]) => {
+    stats[key as keyof typeof statLabels] = parseStatCells((value as string).split(' / '));
+  });
+
+  const codes = parseLabeledLines(findSection(sections, 'Share Codes', '')?.lines ?? [], { tune: 'Tune', livery: 'Livery' });
+  stats.shareCode = [codes.tune ?? '', codes.livery].filter((code) => code !== undefined).join(',');
+
+  applyDiscordUpgradeLines(findSection(sections, 'Upgrades', 'Conversions'), build.conversions, formatLabel);
+  applyDiscordUpgradeLines(findSection(sections, 'Upgrades', 'Engine'), build.engine, formatLabel);
+  applyDiscordUpgradeLines(findSection(sections, 'Upgrades', 'Platform And Handling'), build.platformAndHandling, formatLabel);
+  applyDiscordUpgradeLines(findSection(sections, 'Upgrades', 'Drivetrain'), build.drivetrain, formatLabel);
+  applyDiscordUpgradeLines(findSection(sections, 'Upgrades', 'Aero and Appearance'), build.aeroAndAppearance, formatLabel);
+
+  const tires = parseLabeledLines(findSection(sections, 'Upgrades', 'Tires')?.lines ?? [], { compound: 'Compound', width: 'Width' });
+  if (tires.compound) build.tiresAndRims.compound = tires.compound as typeof build.tiresAndRims.compound;
+  Object.assign(build.tiresAndRims.width, parseFrontRearText(tires.width));
+
+  const wheels = parseLabeledLines(findSection(sections, 'Upgrades', 'Wheels')?.lines ?? [], {
+    style: 'Style',
+    name: 'Name',
+    size: 'Size',
+    trackWidth: 'Track Width',
+    profileSize: 'Profile Size',
+  });
+  if (wheels.style) build.tiresAndRims.rimStyle.type = wheels.style as RimStyleType;
+  if (wheels.name) build.tiresAndRims.rimStyle.name = wheels.name;
+  const rimSize = parseFrontRearText(wheels.size);
+  if (rimSize) {
+    build.tiresAndRims.rimSize.front = rimSize.front.replace(/"$/, '');
+    build.tiresAndRims.rimSize.rear = rimSize.rear.replace(/"$/, '');
+  }
+  Object.assign(build.tiresAndRims.trackWidth, parseFrontRearText(wheels.trackWidth));
+  Object.assign(build.tiresAndRims.profileSize, parseFrontRearText(wheels.profileSize));
+
+  // Stock upgrades are left out of the post, N/A ones too, so both are read back as Stock
+  fillStock(build.conversions, ['engine', 'aspiration']);
+  fillStock(build.tiresAndRims.width, ['front', 'rear']);
+  fillStock(build.tiresAndRims.rimSize, ['front', 'rear']);
+  fillStock(build.aeroAndAppearance, Object.keys(build.aeroAndAppearance) as (keyof typeof build.aeroAndAppearance)[]);
+
+  applyDiscordUnitLines(findSection(sections, 'Tune', 'Tires')?.lines ?? [], tune.tires);
+  applyDiscordGears(findSection(sections, 'Tune', 'Gearing'), tune.gears);
+
+  const alignment = findSection(sections, 'Tune', 'Alignment');
+  applyDiscordFrontRearLines(getSubsection(alignment, 'Camber'), tune.camber);
+  applyDiscordFrontRearLines(getSubsection(alignment, 'Toe'), tune.toe);
+  const { caster } = parseLabeledLines(alignment?.lines ?? [], { caster: 'Caster' });
+  if (caster) tune.caster = caster.replace(/°$/, '');
+
+  applyDiscordFrontRearLines(findSection(sections, 'Tune', 'Anti-roll Bars')?.lines ?? [], tune.arb);
+
+  const springs = findSection(sections, 'Tune', 'Springs');
+  applyDiscordUnitLines(getSubsection(springs, 'Springs'), tune.springs);
+  applyDiscordUnitLines(getSubsection(springs, 'Ride Height'), tune.rideHeight);
+
+  const damping = findSection(sections, 'Tune', 'Damping');
+  applyDiscordFrontRearLines(getSubsection(damping, 'Bump'), tune.bump);
+  applyDiscordFrontRearLines(getSubsection(damping, 'Rebound'), tune.damping);
+
+  applyDiscordUnitLines(findSection(sections, 'Tune', 'Aero')?.lines ?? [], tune.aero);
+
+  // Brakes at their defaults are left out of the post
+  const brakes = parseLabeledLines(findSection(sections, 'Tune', 'Brakes')?.lines ?? [], { bias: 'Balance', pressure: 'Pressure' });
+  tune.brake.bias = brakes.bias ? parseNumber(brakes.bias) : '50';
+  tune.brake.pressure = brakes.pressure ? parseNumber(brakes.pressure) : '100';
+
+  applyDiscordDifferential(findSection(sections, 'Tune', 'Differential'), tune.diff);
+
+  return form;
+}
+
+/**
+ * Parses a post made with either the Reddit or the Discord generator
+ */
+export default function parseFHPost(text: string): FHSetup {
+  return text.includes('```') ? parseFHDiscordPost(text) : parseFHRedditPost(text);
+}
@@ -0,0 +1,188 @@
+import { getUnitsForGlobalUnit } from '../../../lib/conversions';
+import { byFullname } from '../../../lib/models';
+import { DriveType, GlobalUnit } from '../../../lib/types';
+import {
+  aeroSection,
+  alignmentSection,
+  antiRollBarsSection,
+  appearanceSection,
+  brakesSection,
+  conversionsSection,
+  dampingSection,
+  differentialSection,
+  DocumentRow,
+  DocumentSection,
+  DocumentTable,
+  frontRearCell,
+  gearsSection,
+  listTable,
+  SetupDocument,
+  springsSection,
+  textCell,
+  tiresSection,
+  unitCell,
+  upgradesSection,
+} from '../setup-document';
+
+import { BuildSettings, FHSetup } from './FHSetup';
+
+export function getDrivetrain(build: BuildSettings): DriveType {
+  if (build.conversions.drivetrain) {
+    return build.conversions.drivetrain;
+  }
+  return DriveType.awd;
+}
+
+function getTuneSections(form: FHSetup): DocumentSection[] {
+  const { tune } = form;
+  const drivetrain = getDrivetrain(form.build);
+
+  return [
+    tiresSection(tune.tires),
+    gearsSection(tune.gears),
+    alignmentSection(tune.camber, tune.toe, [['Caster', tune.caster]]),
+    antiRollBarsSection('ARBs', tune.arb),
+    springsSection(tune.springs, tune.rideHeight),
+    dampingSection(tune.bump, tune.damping, true),
+    aeroSection(tune.aero),
+    brakesSection(tune.brake),
+    differentialSection(tune.diff, {
+      front: [DriveType.fwd, DriveType.awd].includes(drivetrain),
+      rear: [DriveType.rwd, DriveType.awd].includes(drivetrain),
+      center: drivetrain === DriveType.awd,
+    }),
+  ];
+}
+
+function getBuildSections(build: BuildSettings, model: string): DocumentSection[] {
+  const { conversions, tiresAndRims } = build;
+  const car = byFullname.get(model);
+  const drivetrain = conversions.drivetrain === car?.drive ? 'Stock' : conversions.drivetrain;
+
+  const conversionsTable = conversionsSection(drivetrain, conversions.engine, conversions.aspiration, conversions.bodyKit);
+  conversionsTable.tables[0].align = 'right';
+
+  const tiresAndRimsRows: DocumentRow[] = [
+    { label: 'Compound', cells: [textCell(tiresAndRims.compound)] },
+    { label: 'Tire Width', cells: [frontRearCell(tiresAndRims.width, ' mm')] },
+    { label: 'Rim Style', cells: [textCell(`${tiresAndRims.rimStyle.type} ${tiresAndRims.rimStyle.name}`)] },
+    { label: 'Rim Size', cells: [frontRearCell(tiresAndRims.rimSize, ' in')] },
+    { label: 'Track Width', cells: [frontRearCell(tiresAndRims.trackWidth)] },
+    { label: 'Profile Size', cells: [frontRearCell(tiresAndRims.profileSize)] },
+  ];
+
+  return [
+    conversionsTable,
+    upgradesSection('Engine', build.engine),
+    upgradesSection('Platform And Handling', build.platformAndHandling),
+    upgradesSection('Drivetrain', build.drivetrain),
+    { title: 'Tires And Rims', tables: [listTable('Tires And Rims', tiresAndRimsRows)] },
+    appearanceSection('Aero and Appearance', build.aeroAndAppearance),
+  ];
+}
+
+/**
+ * Discord posts list the conversions as they were entered, and the tires apart from the wheels
+ */
+function getCompactBuildSections(build: BuildSettings): DocumentSection[] {
+  const { tiresAndRims } = build;
+
+  const tires: DocumentRow[] = [
+    { label: 'Compound', cells: [textCell(tiresAndRims.compound)] },
+    { label: 'Tire Width', shortLabel: 'Width', cells: [frontRearCell(tiresAndRims.width, ' mm')] },
+  ];
+  const wheels: DocumentRow[] = [
+    { label: 'Style', cells: [textCell(tiresAndRims.rimStyle.type)] },
+    { label: 'Name', cells: [textCell(tiresAndRims.rimStyle.name)] },
+    { label: 'Size', cells: [frontRearCell(tiresAndRims.rimSize, ' in', '"')] },
+    { label: 'Track Width', cells: [frontRearCell(tiresAndRims.trackWidth)] },
+    { label: 'Profile Size', cells: [frontRearCell(tiresAndRims.profileSize)] },
+  ];
+
+  return [
+    upgradesSection('Conversions', build.conversions),
+    upgradesSection('Engine', build.engine),
+    upgradesSection('Platform And Handling', build.platformAndHandling),
+    { title: 'Tires', tables: [listTable('Tires', tires)] },
+    { title: 'Wheels', tables: [listTable('Wheels', wheels)] },
+    upgradesSection('Drivetrain', build.drivetrain),
+    appearanceSection('Aero and Appearance', build.aeroAndAppearance),
+  ];
+}
+
+function getStats(form: FHSetup, globalUnit: GlobalUnit): DocumentRow[] {
+  const { stats } = form;
+  const units = getUnitsForGlobalUnit(globalUnit, true);
+  const rows: DocumentRow[] = [];
+
+  if (stats.hp) rows.push({ label: 'Power', cells: [textCell(`${stats.hp} ${units.power}`)] });
+  if (stats.torque) rows.push({ label: 'Torque', cells: [unitCell(stats.torque, units.torque, 0)] });
+  if (stats.weight) rows.push({ label: 'Weight', cells: [unitCell(stats.weight, units.weight, 0)] });
+  if (stats.balance) rows.push({ label: 'Balance', cells: [textCell(`${stats.balance}%`)] });
+  if (stats.topSpeed) rows.push({ label: 'Top Speed', cells: [unitCell(stats.topSpeed, units.speed, 0)] });
+  if (stats.zeroToSixty) rows.push({ label: '0-60', cells: [textCell(`${stats.zeroToSixty}s`)] });
+  if (stats.zeroToHundred) rows.push({ label: '0-100', cells: [textCell(`${stats.zeroToHundred}s`)] });
+
+  return rows;
+}
+
+/**
+ * Stats are shown as they were entered, in the global units, even when none were entered
+ */
+function getStatsTable(form: FHSetup, globalUnit: GlobalUnit): DocumentTable {
+  const { stats } = form;
+  const units = getUnitsForGlobalUnit(globalUnit, true);
+  const rows: [string, string][] = [];
+
+  if (stats.hp) rows.push(['Power', `${stats.hp} ${units.power}`]);
+  if (stats.torque) rows.push(['Torque', `${stats.torque} ${units.torque}`]);
+  if (stats.weight) rows.push(['Weight', `${stats.weight} ${units.weight}`]);
+  if (stats.balance) rows.push(['Balance', `${stats.balance}%`]);
+  if (stats.topSpeed) rows.push(['Top Speed', `${stats.topSpeed} ${units.speed}`]);
+  if (stats.zeroToSixty) rows.push(['0-60', `${stats.zeroToSixty}s`]);
+  if (stats.zeroToHundred) rows.push(['0-100', `${stats.zeroToHundred}s`]);
+  if (stats.shareCode) rows.push(['Share Code', stats.shareCode]);
+
+  return {
+    ...listTable('Stats', rows.map(([label, value]) => ({ label, cells: [textCell(value)] }))),
+    boldLabels: true,
+  };
+}
+
+function getShareCodes(shareCode: string): DocumentRow[] {
+  const [tune, livery] = shareCode.split(',');
+  const rows: DocumentRow[] = [];
+
+  if (tune) rows.push({ label: 'Tune', cells: [textCell(tune)] });
+  if (livery) rows.push({ label: 'Livery', cells: [textCell(livery)] });
+
+  return rows;
+}
+
+export default function getFHSetupDocument(form: FHSetup, globalUnit: GlobalUnit, linkUrl: string): SetupDocument {
+  const car = [form.make, form.model].filter((val) => val).join(' ');
+  const rating = `${form.stats.classification} ${form.stats.pi}`;
+
+  return {
+    globalUnit,
+    car,
+    rating,
+    heading: `#${[car, rating].filter((val) => val).join(' - ')}`,
+    classification: form.stats.classification,
+    pi: `${form.stats.pi}`,
+    stats: getStats(form, globalUnit),
+    statsTable: getStatsTable(form, globalUnit),
+    shareCode: form.stats.shareCode,
+    shareCodes: getShareCodes(form.stats.shareCode),
+    buildTitle: 'Build',
+    build: getBuildSections(form.build, form.model),
+    compactBuild: getCompactBuildSections(form.build),
+    tune: getTuneSections(form),
+    linkUrl,
+    formatter: {
+      name: 'Tune Formatter',
+      url: 'https://optn.club/formatter',
+      discordUrl: 'https://optn.club/formatter/forza/horizon5/v1',
+    },
+  };
+}
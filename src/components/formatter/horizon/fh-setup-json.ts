@@ -0,0 +1,12 @@
+import schema from '../../../../public/schemas/fh5-setup.schema.json';
+import createSetupJson, { JsonSchema } from '../../../lib/setupJson';
+
+import { FHSetup } from './FHSetup';
+
+const fhSetupJson = createSetupJson<FHSetup>({
+  game: 'fh5',
+  version: 'v1',
+  schema: schema as JsonSchema,
+});
+
+export default fhSetupJson;
@@ -21,6 +21,7 @@ const gearCounts: Record<string, number> = {
   [TransmissionUpgrade.raceEight]: 8,
   [TransmissionUpgrade.raceNine]: 9,
   [TransmissionUpgrade.raceTen]: 10,
+  [TransmissionUpgrade.drift]: 4,
 };
 
 export interface UseUpgrades {
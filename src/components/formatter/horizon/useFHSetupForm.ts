@@ -3,8 +3,8 @@ import { computed, ComputedRef, inject, provide } from 'vue';
 import { DriveType, FormattingFormProps } from '../../../lib/types';
 import useSetupForm from '../useSetupForm';
 
-import { getDrivetrain } from './fh-reddit-generator';
-import { FHSetup, getLatestDefaultForm } from './FHSetup';
+import { getDrivetrain } from './fh-setup-document';
+import { FHSetup, getEncoderOptions } from './FHSetup';
 import { useFHEnabledControls, UseUpgrades } from './useFHEnabledControls';
 import useFHUnits from './useFHUnits';
 
@@ -14,12 +14,19 @@ interface UseFHFormattingForm {
   show: ComputedRef<UseUpgrades>;
   encoded: ComputedRef<string>;
   reset(): void;
+  load(values: FHSetup): void;
 }
 
 const providerKey = 'fh-formatting-form';
 
 export function useFHSetupFormProvider(props: FormattingFormProps) {
-  const { form, encoded, globalUnits, reset } = useSetupForm(props, getLatestDefaultForm, true);
+  const {
+    form,
+    encoded,
+    globalUnits,
+    reset,
+    load,
+  } = useSetupForm<FHSetup>(props, getEncoderOptions(props.version ?? 'v1'), true);
 
   const driveType = computed(() => getDrivetrain(form.build));
 
@@ -33,6 +40,7 @@ export function useFHSetupFormProvider(props: FormattingFormProps) {
     show,
     encoded,
     reset,
+    load,
   };
 
   provide(providerKey, state);
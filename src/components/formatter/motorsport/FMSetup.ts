@@ -1,3 +1,6 @@
+import { packedFormSerializer } from '../../../lib/bitPackedForm';
+import { DiffSection } from '../../../lib/formDiff';
+import createMigrationRegistry from '../../../lib/migrations';
 import {
   AeroAndAppearanceUpgrades,
   BallastType,
@@ -14,6 +17,7 @@ import {
   LengthUnit,
   LimitedTransmissionUpgrade,
   LimitedUpgrade,
+  NumericString,
   PressureUnit,
   SpeedUnit,
   SpringRateUnit,
@@ -21,7 +25,7 @@ import {
   Upgrade,
   WeightUnit,
 } from '../../../lib/types';
-import { FormEncoderOptions, GenericForm } from '../../../lib/useFormEncoder';
+import { FormEncoderOptions, FormEncoding, GenericForm } from '../../../lib/useFormEncoder';
 
 /*
 Class X – 999 PI
@@ -112,15 +116,15 @@ export interface DrivetrainUpgrades {
 
 export interface SteeringWheelTuneSettings {
   na: boolean;
-  ffbScale: string;
-  steeringLockRange: string;
+  ffbScale: NumericString;
+  steeringLockRange: NumericString;
 }
 
 export interface FMAlignmentTuneSettings {
-  camber: FrontAndRearSettings;
-  toe: FrontAndRearSettings;
-  caster: string;
-  steeringAngle: string;
+  camber: FrontAndRearSettings<NumericString>;
+  toe: FrontAndRearSettings<NumericString>;
+  caster: NumericString;
+  steeringAngle: NumericString;
   na: boolean;
 }
 
@@ -128,13 +132,13 @@ export interface TuneSettings {
   tires: FrontAndRearWithUnits<PressureUnit>;
   gears: GearTuneSettings;
   alignment: FMAlignmentTuneSettings;
-  arb: FrontAndRearSettings;
+  arb: FrontAndRearSettings<NumericString>;
   springs: FrontAndRearWithUnits<SpringRateUnit>;
   rideHeight: FrontAndRearWithUnits<LengthUnit>;
-  bump: FrontAndRearSettings;
-  rebound: FrontAndRearSettings;
+  bump: FrontAndRearSettings<NumericString>;
+  rebound: FrontAndRearSettings<NumericString>;
   rollCenterHeightOffset: FrontAndRearWithUnits<LengthUnit>;
-  antiGeometryPercent: FrontAndRearSettings;
+  antiGeometryPercent: FrontAndRearSettings<NumericString>;
   aero: FrontAndRearWithUnits<ForceUnit>;
   brake: BrakeTuneSettings;
   diff: DifferentialTuneSettings;
@@ -164,14 +168,14 @@ export interface V2PerformanceUpgrades extends Omit<PerformanceUpgrades, 'engine
 export interface FMSetupStatistics {
   pi: number;
   classification: FMPIClass;
-  carPoints: string;
-  hp: string;
-  torque: string;
-  weight: string;
-  balance: string;
-  topSpeed: string;
-  zeroToSixty: string;
-  zeroToHundred: string;
+  carPoints: NumericString;
+  hp: NumericString;
+  torque: NumericString;
+  weight: NumericString;
+  balance: NumericString;
+  topSpeed: NumericString;
+  zeroToSixty: NumericString;
+  zeroToHundred: NumericString;
   shareCode: string;
 }
 
@@ -188,8 +192,19 @@ export interface FMSetupV3 extends Omit<FMSetup, 'upgrades'> {
   upgrades: PerformanceUpgrades;
 }
 
-export function getEncoderOptions(version: string): FormEncoderOptions {
-  return { getDefaultForm: () => getFMDefaultForm(version) as GenericForm };
+/**
+ * Formatter links are always packed, `keyed` is only here so the encodings can be compared in tests.
+ *
+ * Packed values are positional, so the fields of a form version must not change once its links are
+ * shared.  Adding, removing or renaming a field needs a new version in `defaultFormMap` and a
+ * migration to it from the previous one, the fields of each version are pinned in `bitPackedForm.spec.ts`.
+ */
+export function getEncoderOptions(version: string, encoding: FormEncoding = 'packed'): FormEncoderOptions {
+  return {
+    getDefaultForm: () => getFMDefaultForm(version),
+    schema: `fm8/${defaultFormMap[version] ? version : 'v2'}`,
+    ...(encoding === 'keyed' ? { keyed: true } : packedFormSerializer),
+  };
 }
 
 export function getFMDefaultForm(version: string): GenericForm {
@@ -215,6 +230,52 @@ const defaultFormMap: DefaultFormMap<FMSetup> = {
   v3: getFMDefaultFormV3,
 };
 
+/**
+ * Added Rotors and Compression engine upgrade
+ */
+export function migrateFMV2ToV3(form: FMSetup): FMSetupV3 {
+  const migrated: FMSetup = JSON.parse(JSON.stringify(form));
+  const engine: Partial<EngineUpgrades> = {
+    rotorsAndCompression: Upgrade.na,
+  };
+
+  Object.assign(migrated.upgrades.engine, engine);
+
+  return migrated as FMSetupV3;
+}
+
+export const fmMigrations = createMigrationRegistry<FMSetupV3>('v3', [
+  { from: 'v2', to: 'v3', migrate: migrateFMV2ToV3 },
+]);
+
+/**
+ * Compare view sections, in the same order as the generated tune
+ */
+export const fmTuneSections: DiffSection[] = [
+  { title: 'Tires', paths: ['tune.tires'] },
+  { title: 'Gearing', paths: ['tune.gears'] },
+  { title: 'Alignment', paths: ['tune.alignment'] },
+  { title: 'Anti-roll Bars', paths: ['tune.arb'] },
+  { title: 'Springs', paths: ['tune.springs', 'tune.rideHeight'] },
+  { title: 'Damping', paths: ['tune.bump', 'tune.rebound'] },
+  { title: 'Suspension Geometry', paths: ['tune.rollCenterHeightOffset', 'tune.antiGeometryPercent'] },
+  { title: 'Aero', paths: ['tune.aero'] },
+  { title: 'Brakes', paths: ['tune.brake'] },
+  { title: 'Differential', paths: ['tune.diff'] },
+  { title: 'Steering Wheel', paths: ['tune.steeringWheel'] },
+];
+
+export const fmUpgradeSections: DiffSection[] = [
+  { title: 'Conversions', paths: ['upgrades.conversions'] },
+  { title: 'Fuel and Air', paths: ['upgrades.fuelAndAir'] },
+  { title: 'Engine', paths: ['upgrades.engine'] },
+  { title: 'Platform And Handling', paths: ['upgrades.platformAndHandling'] },
+  { title: 'Tires', paths: ['upgrades.tires'] },
+  { title: 'Wheels', paths: ['upgrades.wheels'] },
+  { title: 'Drivetrain', paths: ['upgrades.drivetrain'] },
+  { title: 'Aero and Appearance', paths: ['upgrades.aeroAndAppearance'] },
+];
+
 function getFMDefaultFormV2(): FMSetup {
   const defaultForm: FMSetup = {
     year: '',
@@ -400,12 +461,5 @@ function getFMDefaultFormV2(): FMSetup {
 }
 
 function getFMDefaultFormV3(): FMSetupV3 {
-  const v2Form = getFMDefaultFormV2();
-  const engine: Partial<EngineUpgrades> = {
-    rotorsAndCompression: Upgrade.na,
-  };
-
-  Object.assign(v2Form.upgrades.engine, engine);
-
-  return v2Form as FMSetupV3;
+  return migrateFMV2ToV3(getFMDefaultFormV2());
 }
@@ -0,0 +1,21 @@
+import { ChangelogRevisions, formatChangelogTitle, formatDiscordChangelog, formatRedditChangelog, getChangelogSections } from '../changelog-generator';
+
+import { FMSetupV3, fmTuneSections, fmUpgradeSections } from './FMSetup';
+
+function getChangelog(before: FMSetupV3, after: FMSetupV3, revisions: ChangelogRevisions) {
+  return {
+    title: formatChangelogTitle(after.make, after.model, revisions),
+    tune: getChangelogSections(before, after, fmTuneSections),
+    upgrades: getChangelogSections(before, after, fmUpgradeSections),
+  };
+}
+
+export function fmRedditChangelogGenerator(before: FMSetupV3, after: FMSetupV3, revisions: ChangelogRevisions, linkUrl: string) {
+  const { title, tune, upgrades } = getChangelog(before, after, revisions);
+  return formatRedditChangelog(title, tune, upgrades, linkUrl);
+}
+
+export function fmDiscordChangelogGenerator(before: FMSetupV3, after: FMSetupV3, revisions: ChangelogRevisions, linkUrl: string) {
+  const { title, tune, upgrades } = getChangelog(before, after, revisions);
+  return formatDiscordChangelog(title, tune, upgrades, linkUrl);
+}
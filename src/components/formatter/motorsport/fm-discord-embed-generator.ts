@@ -0,0 +1,9 @@
+import { GlobalUnit } from '../../../lib/types';
+import renderSetup from '../output-targets';
+
+import getFMSetupDocument from './fm-setup-document';
+import { FMSetup } from './FMSetup';
+
+export default function fmDiscordEmbedGenerator(form: FMSetup, globalUnit: GlobalUnit, linkUrl: string) {
+  return renderSetup('discord-embed', getFMSetupDocument(form, globalUnit, linkUrl));
+}
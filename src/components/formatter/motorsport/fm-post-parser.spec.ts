@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { getFMTestForm } from '../../../lib/testForm';
+import { PressureUnit } from '../../../lib/types';
+
+import fmDiscordGenerator from './fm-discord-generator';
+import parseFMPost, { parseFMDiscordPost, parseFMRedditPost } from './fm-post-parser';
+import fmRedditGenerator from './fm-reddit-generator';
+
+const LINK_URL = 'https://optn.club/formatter/forza/motorsport/v3/test';
+
+describe('fm-post-parser', () => {
+  it('should parse a Reddit post back into the form', () => {
+    const post = fmRedditGenerator(getFMTestForm(), 'Metric', LINK_URL);
+
+    const expected = getFMTestForm();
+    // Empty conversions are shown as Stock
+    expected.upgrades.conversions.engine = 'Stock';
+    expected.upgrades.conversions.bodyKit = 'Stock';
+
+    expect(parseFMRedditPost(post)).toEqual(expected);
+  });
+
+  it('should parse a Discord post back into the form', () => {
+    const post = fmDiscordGenerator(getFMTestForm(), 'Metric', LINK_URL);
+
+    expect(parseFMDiscordPost(post)).toEqual(getFMTestForm());
+  });
+
+  it('should detect the units the tune was entered in', () => {
+    const form = getFMTestForm();
+    form.tune.tires.units = PressureUnit.psi;
+    form.tune.tires.front = '31';
+    form.tune.tires.rear = '32';
+
+    const reddit = parseFMPost(fmRedditGenerator(form, 'Metric', LINK_URL));
+    const discord = parseFMPost(fmDiscordGenerator(form, 'Metric', LINK_URL));
+
+    expect(reddit.tune.tires).toEqual(form.tune.tires);
+    expect(discord.tune.tires).toEqual(form.tune.tires);
+  });
+});
@@ -0,0 +1,244 @@
+import { capitalCase } from 'change-case';
+
+import { DriveType, FrontAndRearSettings } from '../../../lib/types';
+import {
+  applyDiscordDifferential,
+  applyDiscordFrontRearLines,
+  applyDiscordGears,
+  applyDiscordUnitLines,
+  applyDiscordUpgradeLines,
+  applyRedditDifferential,
+  applyRedditFrontRearTable,
+  applyRedditGears,
+  applyRedditUnitTable,
+  applyRedditUpgradeTable,
+  applyUnitCells,
+  findSection,
+  findTable,
+  getSectionLabels,
+  getSubsection,
+  getTableRow,
+  isNotApplicable,
+  parseDiscordSections,
+  parseFrontRearCell,
+  parseFrontRearText,
+  parseLabeledLines,
+  parseNumber,
+  parsePostTitle,
+  parseRedditTables,
+  parseStatCells,
+  parseTableRows,
+  PostSection,
+  splitMakeAndModel,
+} from '../post-parser';
+import { formatLabel } from '../setup-document';
+
+import { FMPIClass, FMSetupV3, getFMFormFactory } from './FMSetup';
+
+const statLabels = {
+  carPoints: 'CP',
+  hp: 'Power',
+  torque: 'Torque',
+  weight: 'Weight',
+  balance: 'Balance',
+  topSpeed: 'Top Speed',
+  zeroToSixty: '0-60',
+  zeroToHundred: '0-100',
+};
+
+function getDefaultForm() {
+  return getFMFormFactory('v3')() as FMSetupV3;
+}
+
+function applyTitle(form: FMSetupV3, text: string) {
+  const title = parsePostTitle(text);
+  const yearMatch = /^(\d{4}) (.*)$/.exec(title.car);
+  const { make, model } = splitMakeAndModel(yearMatch ? yearMatch[2] : title.car);
+  form.year = yearMatch ? yearMatch[1] : '';
+  form.make = make;
+  form.model = model;
+  if (Object.values(FMPIClass).includes(title.classification as FMPIClass)) {
+    form.stats.classification = title.classification as FMPIClass;
+  }
+  const pi = parseInt(title.pi, 10);
+  if (!Number.isNaN(pi)) form.stats.pi = pi;
+}
+
+/**
+ * Older Reddit posts show the wheel style twice, ie. `Enkei RPF1 Enkei RPF1`
+ */
+function parseWheelStyle(text: string) {
+  const half = text.slice(0, Math.max(0, Math.floor((text.length - 1) / 2)));
+  return text === `${half} ${half}` ? half : text;
+}
+
+export function parseFMRedditPost(text: string): FMSetupV3 {
+  const form = getDefaultForm();
+  const tables = parseRedditTables(text);
+  const { upgrades, tune, stats } = form;
+
+  applyTitle(form, text);
+
+  const statsTable = findTable(tables, '', 'Stats');
+  (Object.keys(statLabels) as (keyof typeof statLabels)[]).forEach((key) => {
+    const row = getTableRow(statsTable, statLabels[key]);
+    if (row) stats[key] = parseStatCells(row.slice(1));
+  });
+
+  stats.shareCode = getTableRow(statsTable, 'Share Code')?.[1] ?? '';
+
+  const conversions = parseTableRows(findTable(tables, 'Performance', 'Conversions'), getSectionLabels(upgrades.conversions, capitalCase));
+  upgrades.conversions.engine = conversions.engine ?? '';
+  upgrades.conversions.drivetrain = (conversions.drivetrain as DriveType) ?? DriveType.stock;
+  upgrades.conversions.aspiration = conversions.aspiration ?? '';
+  upgrades.conversions.bodyKit = conversions.bodyKit ?? '';
+
+  applyRedditUpgradeTable(findTable(tables, 'Performance', 'Fuel and Air'), upgrades.fuelAndAir, capitalCase);
+  applyRedditUpgradeTable(findTable(tables, 'Performance', 'Engine'), upgrades.engine, capitalCase);
+  applyRedditUpgradeTable(findTable(tables, 'Performance', 'Platform And Handling'), upgrades.platformAndHandling, capitalCase);
+  applyRedditUpgradeTable(findTable(tables, 'Performance', 'Drivetrain'), upgrades.drivetrain, capitalCase);
+
+  const tires = parseTableRows(findTable(tables, 'Performance', 'Tires'), { compound: 'Compound', width: 'Tire Width' });
+  if (tires.compound) upgrades.tires.compound = tires.compound as typeof upgrades.tires.compound;
+  Object.assign(upgrades.tires.width, parseFrontRearCell(tires.width, ' mm'));
+
+  const wheels = parseTableRows(findTable(tables, 'Performance', 'Wheels'), { style: 'Style', size: 'Size' });
+  if (wheels.style !== undefined) upgrades.wheels.style = parseWheelStyle(wheels.style);
+  Object.assign(upgrades.wheels.size, parseFrontRearCell(wheels.size, ' in'));
+
+  const aeroBuild = findTable(tables, 'Performance', 'Aero and Appearance');
+  Object.assign(upgrades.aeroAndAppearance, parseTableRows(aeroBuild, getSectionLabels(upgrades.aeroAndAppearance, capitalCase)));
+
+  applyRedditUnitTable(findTable(tables, 'Tune', 'Tires'), tune.tires);
+  applyRedditGears(findTable(tables, 'Tune', 'Gears'), tune.gears);
+
+  const alignment = findTable(tables, 'Tune', 'Alignment');
+  if (isNotApplicable(alignment)) {
+    tune.alignment.na = true;
+  } else {
+    const caster: FrontAndRearSettings = { front: '', rear: '' };
+    const steeringAngle: FrontAndRearSettings = { front: '', rear: '' };
+    applyRedditFrontRearTable(alignment, [tune.alignment.camber, tune.alignment.toe, caster, steeringAngle]);
+    tune.alignment.caster = caster.front;
+    tune.alignment.steeringAngle = steeringAngle.front;
+  }
+
+  applyRedditFrontRearTable(findTable(tables, 'Tune', 'Anti-roll Bars'), [tune.arb]);
+  applyRedditUnitTable(findTable(tables, 'Tune', 'Springs'), tune.springs);
+  applyRedditUnitTable(findTable(tables, 'Tune', 'Ride Height'), tune.rideHeight);
+  applyRedditFrontRearTable(findTable(tables, 'Tune', 'Damping'), [tune.bump, tune.rebound]);
+
+  const geometry = findTable(tables, 'Tune', 'Suspension Geometry');
+  if (geometry) {
+    const front = getTableRow(geometry, 'Front');
+    const rear = getTableRow(geometry, 'Rear');
+    // Both unit systems are shown in a single cell, ie. `2.0 cm / 0.8 in`
+    applyUnitCells({ front: front?.[1].split(' / '), rear: rear?.[1].split(' / ') }, tune.rollCenterHeightOffset);
+    tune.antiGeometryPercent.front = parseNumber(front?.[2]);
+    tune.antiGeometryPercent.rear = parseNumber(rear?.[2]);
+  }
+
+  applyRedditUnitTable(findTable(tables, 'Tune', 'Aero'), tune.aero);
+
+  const brakes = findTable(tables, 'Tune', 'Brakes');
+  if (brakes && !isNotApplicable(brakes)) {
+    tune.brake.bias = parseNumber(getTableRow(brakes, 'Balance')?.[1]);
+    tune.brake.pressure = parseNumber(getTableRow(brakes, 'Pressure')?.[1]);
+  }
+
+  applyRedditDifferential(findTable(tables, 'Tune', 'Differential'), tune.diff);
+
+  const steeringWheel = findTable(tables, 'Tune', 'Steering Wheel');
+  if (steeringWheel) {
+    tune.steeringWheel.na = isNotApplicable(steeringWheel);
+    if (!tune.steeringWheel.na) {
+      tune.steeringWheel.ffbScale = getTableRow(steeringWheel, 'FFB Scale')?.[1] ?? '';
+      tune.steeringWheel.steeringLockRange = getTableRow(steeringWheel, 'Steering Lock Range')?.[1] ?? '';
+    }
+  }
+
+  return form;
+}
+
+function getLines(section: PostSection | undefined) {
+  return section?.lines ?? [];
+}
+
+export function parseFMDiscordPost(text: string): FMSetupV3 {
+  const form = getDefaultForm();
+  const sections = parseDiscordSections(text);
+  const { upgrades, tune, stats } = form;
+
+  applyTitle(form, text);
+
+  Object.entries(parseLabeledLines(getLines(findSection(sections, 'Stats', '')), statLabels)).forEach(([key, value]) => {
+    stats[key as keyof typeof statLabels] = parseStatCells((value as string).split(' / '));
+  });
+
+  const codes = parseLabeledLines(getLines(findSection(sections, 'Share Codes', '')), { tune: 'Tune', livery: 'Livery' });
+  stats.shareCode = [codes.tune ?? '', codes.livery].filter((code) => code !== undefined).join(',');
+
+  applyDiscordUpgradeLines(findSection(sections, 'Upgrades', 'Conversions'), upgrades.conversions, formatLabel);
+  applyDiscordUpgradeLines(findSection(sections, 'Upgrades', 'Fuel and Air'), upgrades.fuelAndAir, formatLabel);
+  applyDiscordUpgradeLines(findSection(sections, 'Upgrades', 'Engine'), upgrades.engine, formatLabel);
+  applyDiscordUpgradeLines(findSection(sections, 'Upgrades', 'Platform And Handling'), upgrades.platformAndHandling, formatLabel);
+  applyDiscordUpgradeLines(findSection(sections, 'Upgrades', 'Drivetrain'), upgrades.drivetrain, formatLabel);
+  applyDiscordUpgradeLines(findSection(sections, 'Upgrades', 'Aero and Appearance'), upgrades.aeroAndAppearance, formatLabel);
+
+  const tires = parseLabeledLines(getLines(findSection(sections, 'Upgrades', 'Tires')), { compound: 'Compound', width: 'Width' });
+  if (tires.compound) upgrades.tires.compound = tires.compound as typeof upgrades.tires.compound;
+  Object.assign(upgrades.tires.width, parseFrontRearText(tires.width));
+
+  const wheels = parseLabeledLines(getLines(findSection(sections, 'Upgrades', 'Wheels')), { style: 'Style', size: 'Size' });
+  if (wheels.style) upgrades.wheels.style = wheels.style;
+  Object.assign(upgrades.wheels.size, parseFrontRearText(wheels.size));
+
+  applyDiscordUnitLines(getLines(findSection(sections, 'Tune', 'Tires')), tune.tires);
+  applyDiscordGears(findSection(sections, 'Tune', 'Gearing'), tune.gears);
+
+  const alignment = findSection(sections, 'Tune', 'Alignment');
+  applyDiscordFrontRearLines(getSubsection(alignment, 'Camber'), tune.alignment.camber);
+  applyDiscordFrontRearLines(getSubsection(alignment, 'Toe'), tune.alignment.toe);
+  const angles = parseLabeledLines(getLines(alignment), { caster: 'Caster', steeringAngle: 'Steering Angle' });
+  if (angles.caster) tune.alignment.caster = angles.caster.replace(/°$/, '');
+  if (angles.steeringAngle) tune.alignment.steeringAngle = angles.steeringAngle.replace(/°$/, '');
+
+  applyDiscordFrontRearLines(getLines(findSection(sections, 'Tune', 'Anti-roll Bars')), tune.arb);
+
+  const springs = findSection(sections, 'Tune', 'Springs');
+  applyDiscordUnitLines(getSubsection(springs, 'Springs'), tune.springs);
+  applyDiscordUnitLines(getSubsection(springs, 'Ride Height'), tune.rideHeight);
+
+  const damping = findSection(sections, 'Tune', 'Damping');
+  applyDiscordFrontRearLines(getSubsection(damping, 'Bump'), tune.bump);
+  applyDiscordFrontRearLines(getSubsection(damping, 'Rebound'), tune.rebound);
+
+  const geometry = findSection(sections, 'Tune', 'Suspension Geometry');
+  applyDiscordUnitLines(getSubsection(geometry, 'Roll Center Offset'), tune.rollCenterHeightOffset);
+  applyDiscordFrontRearLines(getSubsection(geometry, 'Anti-Geometry'), tune.antiGeometryPercent);
+
+  applyDiscordUnitLines(getLines(findSection(sections, 'Tune', 'Aero')), tune.aero);
+
+  const brakes = parseLabeledLines(getLines(findSection(sections, 'Tune', 'Brakes')), { bias: 'Balance', pressure: 'Pressure' });
+  if (brakes.bias) tune.brake.bias = parseNumber(brakes.bias);
+  if (brakes.pressure) tune.brake.pressure = parseNumber(brakes.pressure);
+
+  applyDiscordDifferential(findSection(sections, 'Tune', 'Differential'), tune.diff);
+
+  const steeringWheel = findSection(sections, 'Tune', 'Steering Wheel');
+  if (steeringWheel) {
+    const wheel = parseLabeledLines(steeringWheel.lines, { ffbScale: 'FFB Scale', steeringLockRange: 'Steering Lock' });
+    tune.steeringWheel.na = false;
+    tune.steeringWheel.ffbScale = wheel.ffbScale ?? '';
+    tune.steeringWheel.steeringLockRange = wheel.steeringLockRange ?? '';
+  }
+
+  return form;
+}
+
+/**
+ * Parses a post made with either the Reddit or the Discord generator
+ */
+export default function parseFMPost(text: string): FMSetupV3 {
+  return text.includes('```') ? parseFMDiscordPost(text) : parseFMRedditPost(text);
+}
@@ -0,0 +1,199 @@
+import { getUnitsForGlobalUnit } from '../../../lib/conversions';
+import { GlobalUnit, UnitOfMeasure } from '../../../lib/types';
+import { formatUnit } from '../../../lib/unitsOfMeasure';
+import {
+  aeroSection,
+  alignmentSection,
+  antiRollBarsSection,
+  appearanceSection,
+  brakesSection,
+  conversionsSection,
+  dampingSection,
+  differentialSection,
+  DocumentRow,
+  DocumentSection,
+  DocumentTable,
+  emptyCell,
+  frontRearCell,
+  frontRearTable,
+  gearsSection,
+  listTable,
+  SetupDocument,
+  showValue,
+  springsSection,
+  textCell,
+  tiresSection,
+  unitCell,
+  upgradesSection,
+} from '../setup-document';
+
+import { FMSetup, PerformanceUpgrades, TuneSettings, V2PerformanceUpgrades } from './FMSetup';
+
+/**
+ * Tables show the anti-geometry as it was entered, compact outputs round it like the other percentages
+ */
+function suspensionGeometrySection(tune: TuneSettings): DocumentSection {
+  const offset = tune.rollCenterHeightOffset;
+  const antiGeometry = tune.antiGeometryPercent;
+  const compact = frontRearTable('Suspension Geometry', ['Roll Center Offset', 'Anti-Geometry'], [offset, antiGeometry], 1, '%');
+  compact.rows[0].cells[0] = unitCell(offset.front, offset.units);
+  compact.rows[1].cells[0] = unitCell(offset.rear, offset.units);
+  compact.notApplicable = offset.na && antiGeometry.na;
+
+  const table: DocumentTable = {
+    ...compact,
+    rows: [
+      { ...compact.rows[0], cells: [compact.rows[0].cells[0], textCell(`${antiGeometry.front}%`)] },
+      { ...compact.rows[1], cells: [compact.rows[1].cells[0], textCell(`${antiGeometry.rear}%`)] },
+    ],
+    boldLabels: true,
+  };
+
+  return { title: 'Suspension Geometry', tables: [table], compactTables: [compact] };
+}
+
+function steeringWheelSection(tune: TuneSettings): DocumentSection {
+  const { steeringWheel } = tune;
+  const table: DocumentTable = {
+    title: 'Steering Wheel',
+    columns: [''],
+    layout: 'list',
+    rows: [
+      { label: 'FFB Scale', cells: [textCell(steeringWheel.ffbScale, '100')] },
+      { label: 'Steering Lock Range', shortLabel: 'Steering Lock', cells: [textCell(steeringWheel.steeringLockRange, '900')] },
+    ],
+    notApplicable: steeringWheel.na,
+  };
+
+  return { title: 'Steering Wheel', tables: [table] };
+}
+
+function getTuneSections(tune: TuneSettings): DocumentSection[] {
+  const { alignment, diff } = tune;
+
+  return [
+    tiresSection(tune.tires),
+    gearsSection(tune.gears),
+    alignmentSection(
+      alignment.camber,
+      alignment.toe,
+      [['Caster', alignment.caster], ['Steering Angle', alignment.steeringAngle]],
+      alignment.na,
+    ),
+    antiRollBarsSection('Anti-roll Bars', tune.arb),
+    springsSection(tune.springs, tune.rideHeight),
+    dampingSection(tune.bump, tune.rebound),
+    suspensionGeometrySection(tune),
+    aeroSection(tune.aero),
+    brakesSection(tune.brake),
+    differentialSection(diff, {
+      front: showValue(diff.front.accel) || showValue(diff.front.decel),
+      rear: showValue(diff.rear.accel) || showValue(diff.rear.decel),
+      center: showValue(diff.center),
+    }),
+    steeringWheelSection(tune),
+  ];
+}
+
+function getUpgradeSections(upgrades: PerformanceUpgrades | V2PerformanceUpgrades): DocumentSection[] {
+  const { conversions, tires, wheels } = upgrades;
+
+  return [
+    conversionsSection(conversions.drivetrain, conversions.engine, conversions.aspiration, conversions.bodyKit),
+    upgradesSection('Fuel and Air', upgrades.fuelAndAir),
+    upgradesSection('Engine', upgrades.engine),
+    upgradesSection('Platform And Handling', upgrades.platformAndHandling),
+    {
+      title: 'Tires',
+      tables: [listTable('Tires', [
+        { label: 'Compound', cells: [textCell(tires.compound)] },
+        { label: 'Tire Width', shortLabel: 'Width', cells: [frontRearCell(tires.width, ' mm')] },
+      ])],
+    },
+    {
+      title: 'Wheels',
+      tables: [listTable('Wheels', [
+        { label: 'Style', cells: [textCell(wheels.style)] },
+        { label: 'Size', cells: [frontRearCell(wheels.size, ' in')] },
+      ])],
+    },
+    upgradesSection('Drivetrain', upgrades.drivetrain),
+    appearanceSection('Aero and Appearance', upgrades.aeroAndAppearance),
+  ];
+}
+
+/**
+ * Discord posts list the conversions as they were entered
+ */
+function getCompactUpgradeSections(upgrades: PerformanceUpgrades | V2PerformanceUpgrades): DocumentSection[] {
+  const [, ...sections] = getUpgradeSections(upgrades);
+  return [upgradesSection('Conversions', upgrades.conversions), ...sections];
+}
+
+function getStats(form: FMSetup, globalUnit: GlobalUnit): DocumentRow[] {
+  const { stats } = form;
+  const units = getUnitsForGlobalUnit(globalUnit);
+  const rows: DocumentRow[] = [];
+
+  if (stats.carPoints) rows.push({ label: 'CP', cells: [textCell(`${stats.carPoints}`)] });
+  if (stats.hp) rows.push({ label: 'Power', cells: [unitCell(stats.hp, units.power, 0)] });
+  if (stats.torque) rows.push({ label: 'Torque', cells: [unitCell(stats.torque, units.torque, 0)] });
+  if (stats.weight) rows.push({ label: 'Weight', cells: [unitCell(stats.weight, units.weight, 0)] });
+  if (stats.balance) rows.push({ label: 'Balance', cells: [textCell(`${stats.balance}%`)] });
+  if (stats.topSpeed) rows.push({ label: 'Top Speed', cells: [unitCell(stats.topSpeed, units.speed, 0)] });
+  if (stats.zeroToSixty) rows.push({ label: '0-60', cells: [textCell(`${stats.zeroToSixty}s`)] });
+  if (stats.zeroToHundred) rows.push({ label: '0-100', cells: [textCell(`${stats.zeroToHundred}s`)] });
+
+  return rows;
+}
+
+/**
+ * Stats with units are shown in all unit systems, there is no table when no stats were entered
+ */
+function getStatsTable(form: FMSetup, globalUnit: GlobalUnit): DocumentTable | undefined {
+  const { stats } = form;
+  const units = getUnitsForGlobalUnit(globalUnit);
+  const rows: DocumentRow[] = [];
+  const allUnits = (value: string, unit: UnitOfMeasure) => formatUnit(value, unit, 0, true).map((text) => textCell(text));
+
+  if (stats.carPoints) rows.push({ label: 'CP', cells: [textCell(`${stats.carPoints}`), emptyCell] });
+  if (stats.weight) rows.push({ label: 'Weight', cells: allUnits(stats.weight, units.weight) });
+  if (stats.balance) rows.push({ label: 'Balance', cells: [textCell(`${stats.balance}%`)] });
+  if (stats.hp) rows.push({ label: 'Power', cells: allUnits(stats.hp, units.power) });
+  if (stats.torque) rows.push({ label: 'Torque', cells: allUnits(stats.torque, units.torque) });
+  if (stats.topSpeed) rows.push({ label: 'Top Speed', cells: allUnits(stats.topSpeed, units.speed) });
+  if (stats.zeroToSixty) rows.push({ label: '0-60', cells: [textCell(`${stats.zeroToSixty}s`), emptyCell] });
+  if (stats.zeroToHundred) rows.push({ label: '0-100', cells: [textCell(`${stats.zeroToHundred}s`), emptyCell] });
+
+  if (rows.length === 0) return undefined;
+
+  return { ...listTable('Stats', rows), columns: ['', ''], boldLabels: true };
+}
+
+export default function getFMSetupDocument(form: FMSetup, globalUnit: GlobalUnit, linkUrl: string): SetupDocument {
+  const car = [form.year, form.make, form.model].filter((val) => val).join(' ');
+  const rating = `${form.stats.classification} ${form.stats.pi}`;
+
+  return {
+    globalUnit,
+    car,
+    rating,
+    heading: `# ${car} - ${rating}`,
+    classification: form.stats.classification,
+    pi: `${form.stats.pi}`,
+    stats: getStats(form, globalUnit),
+    statsTable: getStatsTable(form, globalUnit),
+    shareCode: form.stats.shareCode,
+    shareCodes: [],
+    buildTitle: 'Performance',
+    build: getUpgradeSections(form.upgrades),
+    compactBuild: getCompactUpgradeSections(form.upgrades),
+    tune: getTuneSections(form.tune),
+    linkUrl,
+    formatter: {
+      name: 'FM Setup Formatter',
+      url: 'https://optn.club/formatter/forza/motorsport/v3',
+      discordUrl: 'https://optn.club/formatter/forza/motorsport/v3',
+    },
+  };
+}
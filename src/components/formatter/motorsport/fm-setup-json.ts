@@ -0,0 +1,12 @@
+import schema from '../../../../public/schemas/fm8-setup.schema.json';
+import createSetupJson, { JsonSchema } from '../../../lib/setupJson';
+
+import { FMSetupV3 } from './FMSetup';
+
+const fmSetupJson = createSetupJson<FMSetupV3>({
+  game: 'fm8',
+  version: 'v3',
+  schema: schema as JsonSchema,
+});
+
+export default fmSetupJson;
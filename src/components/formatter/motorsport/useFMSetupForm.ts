@@ -4,7 +4,7 @@ import { DriveType, FormattingFormProps } from '../../../lib/types';
 import { UseUpgrades } from '../../../lib/useUpgrades';
 import useSetupForm from '../useSetupForm';
 
-import { FMFormVersion, FMSetup, FMSetupV3, getFMFormFactory } from './FMSetup';
+import { FMSetup, FMSetupV3, getEncoderOptions } from './FMSetup';
 import useFMEnabledControls from './useFMEnabledControls';
 import useFMUnits from './useFMUnits';
 
@@ -14,13 +14,19 @@ interface UseFMFormattingForm {
   show: ComputedRef<UseUpgrades>;
   encoded: ComputedRef<string>;
   reset(): void;
+  load(values: FMSetup | FMSetupV3): void;
 }
 
 const providerKey = 'fm-formatting-form';
 
 export function useFMSetupFormProvider(props: FormattingFormProps) {
-  const formFactory = getFMFormFactory(props.version as FMFormVersion);
-  const { form, encoded, globalUnits, reset } = useSetupForm(props, formFactory);
+  const {
+    form,
+    encoded,
+    globalUnits,
+    reset,
+    load,
+  } = useSetupForm<FMSetup | FMSetupV3>(props, getEncoderOptions(props.version ?? 'v2'));
 
   const driveType = computed(() => form.upgrades.conversions.drivetrain);
 
@@ -34,6 +40,7 @@ export function useFMSetupFormProvider(props: FormattingFormProps) {
     show,
     encoded,
     reset,
+    load,
   };
 
   provide(providerKey, state);
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import getTestForm, { getFMTestForm } from '../../lib/testForm';
+
+import getFHSetupDocument from './horizon/fh-setup-document';
+import getFMSetupDocument from './motorsport/fm-setup-document';
+import renderSetup, { getOutputTarget, getOutputTargets, registerOutputTarget } from './output-targets';
+import { SetupDocument } from './setup-document';
+
+const LINK_URL = 'https://optn.club/formatter/forza/horizon5/v1/test';
+
+function listTitles(document: SetupDocument) {
+  return document.tune.map((section) => `${section.title}: ${section.tables.map((table) => table.title).join(', ')}`);
+}
+
+describe('output-targets', () => {
+  it('should register the Reddit and Discord targets', () => {
+    expect(getOutputTargets().map(({ id }) => id)).toEqual(expect.arrayContaining(['reddit', 'discord']));
+    expect(() => getOutputTarget('myspace')).toThrow('Unknown output target myspace');
+  });
+
+  it('should render a document with a registered target', () => {
+    registerOutputTarget({
+      id: 'titles',
+      label: 'Titles',
+      render: (document) => listTitles(document).join('\n'),
+    });
+
+    expect(renderSetup('titles', getFHSetupDocument(getTestForm(), 'Metric', LINK_URL)).split('\n')).toEqual([
+      'Tires: Tires',
+      'Gearing: Gears',
+      'Alignment: Alignment',
+      'Anti-roll Bars: ARBs',
+      'Springs: Springs, Ride Height',
+      'Damping: Damping',
+      'Aero: Aero',
+      'Brakes: Brakes',
+      'Differential: Differential',
+    ]);
+  });
+
+  it('should build the same sections for both games', () => {
+    const fh = getFHSetupDocument(getTestForm(), 'Metric', LINK_URL);
+    const fm = getFMSetupDocument(getFMTestForm(), 'Metric', LINK_URL);
+    const sections = (document: SetupDocument) => document.tune.map(({ title }) => title);
+
+    expect(sections(fm)).toEqual(expect.arrayContaining(sections(fh)));
+    expect(fm.compactBuild.map(({ title }) => title)).toEqual(expect.arrayContaining(fh.compactBuild.map(({ title }) => title)));
+  });
+
+  it('should leave values at the game default out of Discord posts', () => {
+    const form = getFMTestForm();
+    form.tune.brake.bias = '50';
+    form.tune.brake.pressure = '120';
+
+    const discord = renderSetup('discord', getFMSetupDocument(form, 'Metric', LINK_URL));
+    const reddit = renderSetup('reddit', getFMSetupDocument(form, 'Metric', LINK_URL));
+
+    expect(discord).not.toContain('Balance 50%');
+    expect(discord).toContain('Pressure 120%');
+    expect(reddit).toContain('|Balance|50%|');
+  });
+});
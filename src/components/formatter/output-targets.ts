@@ -0,0 +1,35 @@
+import { bbcodeOutput } from './bbcode-output';
+import { discordEmbedOutput } from './discord-embed-output';
+import { discordOutput } from './discord-output';
+import { redditOutput } from './reddit-output';
+import { OutputTarget, SetupDocument } from './setup-document';
+import { tuneCardOutput } from './tune-card';
+
+const targets = new Map<string, OutputTarget>();
+
+/**
+ * Adds an output the formatters can render posts as.  Registering an id again replaces the target.
+ */
+export function registerOutputTarget(target: OutputTarget) {
+  targets.set(target.id, target);
+}
+
+export function getOutputTargets(): OutputTarget[] {
+  return [...targets.values()];
+}
+
+export function getOutputTarget(id: string): OutputTarget {
+  const target = targets.get(id);
+  if (!target) throw new Error(`Unknown output target ${id}`);
+  return target;
+}
+
+export default function renderSetup(id: string, document: SetupDocument): string {
+  return getOutputTarget(id).render(document);
+}
+
+registerOutputTarget(redditOutput);
+registerOutputTarget(discordOutput);
+registerOutputTarget(bbcodeOutput);
+registerOutputTarget(tuneCardOutput);
+registerOutputTarget(discordEmbedOutput);
@@ -0,0 +1,498 @@
+import makes from '../../lib/makes';
+import {
+  DifferentialTuneSettings,
+  ForceUnit,
+  FrontAndRearSettings,
+  FrontAndRearWithUnits,
+  GearTuneSettings,
+  LengthUnit,
+  PowerUnit,
+  PressureUnit,
+  SpeedUnit,
+  SpringRateUnit,
+  TorqueUnit,
+  UnitOfMeasure,
+  WeightUnit,
+} from '../../lib/types';
+import { formatUnit, formatUnitHeaders } from '../../lib/unitsOfMeasure';
+
+/**
+ * Helpers for reading the text produced by the Reddit and Discord generators back into a form.
+ * Each game's parser knows the layout of its own generators, these only deal with the shared syntax.
+ */
+
+export interface PostTable {
+  /**
+   * The `## Heading` the table was found under, ie. `Tune`
+   */
+  group: string;
+  title: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface PostSection {
+  /**
+   * The bold heading of the code block the section was found in, ie. `Tune`
+   */
+  group: string;
+  title: string;
+  lines: string[];
+}
+
+export interface PostTitle {
+  car: string;
+  classification: string;
+  pi: string;
+}
+
+export const NOT_APPLICABLE = 'Not Applicable';
+
+const unitFamilies: UnitOfMeasure[][] = [
+  PressureUnit,
+  SpringRateUnit,
+  LengthUnit,
+  ForceUnit,
+  SpeedUnit,
+  PowerUnit,
+  TorqueUnit,
+  WeightUnit,
+].map((units) => Object.values(units));
+
+function stripBold(text: string) {
+  return text.replace(/\*\*/g, '').trim();
+}
+
+/**
+ * Parses the `Make Model - Class PI` title line of a post
+ */
+export function parsePostTitle(text: string): PostTitle {
+  const line = text.split('\n').find((candidate) => /^(#|\*\*)/.test(candidate.trim())) ?? '';
+  const title = stripBold(line.trim().replace(/^#+/, ''));
+  const parts = title.split(' - ');
+  const rating = parts.length > 1 ? (parts.pop() as string) : '';
+  const [classification = '', pi = ''] = rating.split(' ');
+
+  return {
+    car: parts.join(' - ').trim(),
+    classification,
+    pi,
+  };
+}
+
+/**
+ * Splits `Make Model` using the list of known makes
+ */
+export function splitMakeAndModel(car: string): { make: string, model: string } {
+  const make = makes
+    .filter((candidate) => car === candidate || car.startsWith(`${candidate} `))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!make) return { make: '', model: car };
+  return { make, model: car.slice(make.length).trim() };
+}
+
+export function parseRedditTables(text: string): PostTable[] {
+  const lines = text.split('\n').map((line) => line.trim());
+  const tables: PostTable[] = [];
+  let group = '';
+
+  const toCells = (line: string) => line.slice(1, -1).split('|').map(stripBold);
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (line.startsWith('## ')) {
+      group = line.slice(3).trim();
+    } else if (line.startsWith('|') && /^\|(\s*:?-+:?\s*\|)+$/.test(lines[index + 1] ?? '')) {
+      const headers = toCells(line);
+      const rows: string[][] = [];
+      index += 2;
+      while (index < lines.length && lines[index].startsWith('|')) {
+        rows.push(toCells(lines[index]));
+        index += 1;
+      }
+      tables.push({
+        group,
+        title: headers[0],
+        headers,
+        rows,
+      });
+    }
+  }
+
+  return tables;
+}
+
+export function findTable(tables: PostTable[], group: string, title: string): PostTable | undefined {
+  return tables.find((table) => table.group === group && table.title === title);
+}
+
+export function isNotApplicable(table: PostTable | undefined) {
+  return table?.rows[0]?.[0] === NOT_APPLICABLE;
+}
+
+export function getTableRow(table: PostTable | undefined, label: string): string[] | undefined {
+  return table?.rows.find((row) => row[0] === label);
+}
+
+export function parseDiscordSections(text: string): PostSection[] {
+  const sections: PostSection[] = [];
+  let group = '';
+  let inCode = false;
+  let current: PostSection | undefined;
+
+  text.split('\n').forEach((rawLine) => {
+    const line = rawLine.trimEnd();
+    if (line.trim() === '```') {
+      inCode = !inCode;
+      current = undefined;
+      return;
+    }
+
+    if (!inCode) {
+      if (/^\*\*.*\*\*$/.test(line.trim())) group = stripBold(line);
+      return;
+    }
+
+    const heading = /^== (.*) ==$/.exec(line.trim());
+    if (heading) {
+      current = { group, title: heading[1], lines: [] };
+      sections.push(current);
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      // Blocks without headings, ie. Stats
+      current = { group, title: '', lines: [line] };
+      sections.push(current);
+    }
+  });
+
+  return sections;
+}
+
+export function findSection(sections: PostSection[], group: string, title: string): PostSection | undefined {
+  return sections.find((section) => section.group === group && section.title === title);
+}
+
+/**
+ * Returns the lines below a `-- Heading --`, up to the next heading or blank line
+ */
+export function getSubsection(section: PostSection | undefined, title: string): string[] {
+  if (!section) return [];
+  const start = section.lines.findIndex((line) => line.trim() === `-- ${title} --`);
+  if (start < 0) return [];
+
+  const lines: string[] = [];
+  for (let index = start + 1; index < section.lines.length; index++) {
+    const line = section.lines[index].trim();
+    if (!line || line.startsWith('-- ')) break;
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Reads `Label value` lines, ie. `Camshaft Race`.  Labels are matched longest first,
+ * so `Rear Wing` is not mistaken for `Rear`.
+ */
+export function parseLabeledLines<K extends string>(lines: string[], labels: Record<K, string>): Partial<Record<K, string>> {
+  const keys = (Object.keys(labels) as K[]).sort((a, b) => labels[b].length - labels[a].length);
+  const values: Partial<Record<K, string>> = {};
+
+  lines.forEach((rawLine) => {
+    const line = rawLine.trim();
+    const key = keys.find((candidate) => line === labels[candidate] || line.startsWith(`${labels[candidate]} `));
+    if (key && !(key in values)) {
+      values[key] = line.slice(labels[key].length).trim();
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Returns the numeric part of a formatted value, ie. `-1.0°` -> `-1`, or an empty string
+ */
+export function parseNumber(text: string | undefined): string {
+  const match = /-?\d+(?:\.\d+)?/.exec(text ?? '');
+  return match ? `${parseFloat(match[0])}` : '';
+}
+
+/**
+ * Returns the units of the table headers produced by `formatUnitHeaders`
+ */
+export function getHeaderUnits(headers: string[]): UnitOfMeasure[] | undefined {
+  return unitFamilies.find((units) => units.every((unit) => headers.includes(unit)));
+}
+
+/**
+ * Returns the units of values formatted with `formatUnit(..., true)`, ie. `2.0 bar`
+ */
+export function getValueUnits(cells: string[]): UnitOfMeasure[] | undefined {
+  const units = cells.map((cell) => cell.trim().replace(/^-?[\d.]+\s*/, ''));
+  return unitFamilies.find((family) => family.every((unit) => units.includes(unit)));
+}
+
+/**
+ * Every value is shown in both unit systems, only one of which was entered.  The entered value
+ * is the one that converts back into all of the shown values.  When both do, the preferred unit wins.
+ *
+ * Each row holds the values in the order of `units`.
+ */
+export function detectUnit<U extends UnitOfMeasure>(rows: string[][], units: U[], preferred: U, precision = 1): U {
+  const numericRows = rows
+    .map((row) => row.map((cell) => parseNumber(cell)))
+    .filter((row) => row.every((cell) => cell !== ''));
+
+  const candidates = [preferred, ...units.filter((unit) => unit !== preferred)];
+
+  const unit = candidates.find((candidate) => {
+    const index = units.indexOf(candidate);
+    return numericRows.every((row) => {
+      const formatted = formatUnit(row[index], candidate, precision).map((cell) => parseNumber(cell));
+      return formatted.every((cell, cellIndex) => cell === row[cellIndex]);
+    });
+  });
+
+  return unit ?? preferred;
+}
+
+export function getUnitHeaders<U extends UnitOfMeasure>(unit: U): U[] {
+  return formatUnitHeaders(unit) as U[];
+}
+
+/**
+ * Returns the entered unit and the front and rear values in that unit
+ */
+export function parseUnitValues<U extends UnitOfMeasure>(rows: string[][], units: U[], preferred: U, precision = 1) {
+  const unit = detectUnit(rows, units, preferred, precision);
+  const index = units.indexOf(unit);
+  return {
+    units: unit,
+    values: rows.map((row) => parseNumber(row[index])),
+  };
+}
+
+/**
+ * Reads the `F  value / value` and `R  value / value` lines of a Discord table
+ */
+export function parseFrontRearLines(lines: string[]): { front?: string[], rear?: string[] } {
+  const cells: { front?: string[], rear?: string[] } = {};
+  lines.forEach((rawLine) => {
+    const match = /^([FR])\s+(.*)$/.exec(rawLine.trim());
+    if (!match) return;
+    cells[match[1] === 'F' ? 'front' : 'rear'] = match[2].split(' / ').map((cell) => cell.trim());
+  });
+  return cells;
+}
+
+/**
+ * Reads `F front / R rear` values, ie. `F 18" / R Stock`
+ */
+export function parseFrontRearText(text: string | undefined): { front: string, rear: string } | undefined {
+  const match = /^F (.*) \/ R (.*)$/.exec(text ?? '');
+  return match ? { front: match[1].trim(), rear: match[2].trim() } : undefined;
+}
+
+/**
+ * Returns a label for each key of a form section, ie. `{ frontArb: 'ARB F' }`
+ */
+export function getSectionLabels<T extends object>(section: T, formatLabel: (key: string) => string) {
+  const labels = {} as Record<keyof T & string, string>;
+  (Object.keys(section) as (keyof T & string)[]).forEach((key) => {
+    labels[key] = formatLabel(key);
+  });
+  return labels;
+}
+
+/**
+ * Reads the `|Label|value|` rows of a Reddit table
+ */
+export function parseTableRows<K extends string>(table: PostTable | undefined, labels: Record<K, string>): Partial<Record<K, string>> {
+  const values: Partial<Record<K, string>> = {};
+  (Object.keys(labels) as K[]).forEach((key) => {
+    const row = getTableRow(table, labels[key]);
+    if (row) values[key] = row[1] ?? '';
+  });
+  return values;
+}
+
+/**
+ * Reads a Reddit table of front and rear values, one column per target
+ */
+export function applyRedditFrontRearTable(table: PostTable | undefined, targets: FrontAndRearSettings[]) {
+  if (!table) return;
+
+  if (isNotApplicable(table)) {
+    targets.forEach((target) => {
+      target.na = true;
+    });
+    return;
+  }
+
+  const front = getTableRow(table, 'Front') ?? [];
+  const rear = getTableRow(table, 'Rear') ?? [];
+  targets.forEach((target, index) => {
+    target.front = parseNumber(front[index + 1]);
+    target.rear = parseNumber(rear[index + 1]);
+  });
+}
+
+/**
+ * Reads a Reddit table of front and rear values shown in every unit of `formatUnitHeaders`
+ */
+export function applyRedditUnitTable(table: PostTable | undefined, target: FrontAndRearWithUnits) {
+  if (!table) return;
+
+  if (isNotApplicable(table)) {
+    target.na = true;
+    return;
+  }
+
+  const units = getHeaderUnits(table.headers) ?? getUnitHeaders(target.units);
+  const rows = ['Front', 'Rear'].map((label) => {
+    const row = getTableRow(table, label) ?? [];
+    return units.map((unit) => row[table.headers.indexOf(unit)] ?? '');
+  });
+
+  const parsed = parseUnitValues(rows, units, target.units);
+  target.units = parsed.units;
+  [target.front, target.rear] = parsed.values;
+}
+
+/**
+ * Reads the `F` and `R` lines of a Discord table
+ */
+export function applyDiscordFrontRearLines(lines: string[], target: FrontAndRearSettings) {
+  const cells = parseFrontRearLines(lines);
+  if (cells.front) target.front = parseNumber(cells.front[0]);
+  if (cells.rear) target.rear = parseNumber(cells.rear[0]);
+}
+
+/**
+ * Reads front and rear values shown in both unit systems, ie. `['2.0 bar', '29.0 psi']`
+ */
+export function applyUnitCells(cells: { front?: string[], rear?: string[] }, target: FrontAndRearWithUnits) {
+  const positions = (['front', 'rear'] as const).filter((position) => cells[position]);
+  if (positions.length === 0) return;
+
+  const rows = positions.map((position) => cells[position] as string[]);
+  const units = getValueUnits(rows[0]) ?? getUnitHeaders(target.units);
+  const unitRows = rows.map((row) => units.map((unit) => row.find((cell) => cell.endsWith(` ${unit}`)) ?? ''));
+
+  const parsed = parseUnitValues(unitRows, units, target.units);
+  target.units = parsed.units;
+  positions.forEach((position, index) => {
+    target[position] = parsed.values[index];
+  });
+}
+
+/**
+ * Reads the `F` and `R` lines of a Discord table, where each value is shown in both unit systems
+ */
+export function applyDiscordUnitLines(lines: string[], target: FrontAndRearWithUnits) {
+  applyUnitCells(parseFrontRearLines(lines), target);
+}
+
+/**
+ * Reads `Front X mm, Rear Y mm` values from a Reddit table cell
+ */
+export function parseFrontRearCell(text: string | undefined, suffix = ''): { front: string, rear: string } | undefined {
+  const match = /^Front (.*), Rear (.*)$/.exec(text ?? '');
+  if (!match) return undefined;
+  const strip = (value: string) => (suffix && value.endsWith(suffix) ? value.slice(0, -suffix.length) : value).trim();
+  return { front: strip(match[1]), rear: strip(match[2]) };
+}
+
+/**
+ * Reads a stat shown in both unit systems, ie. `1500 kg / 3307 lb`.  The stat is returned in the unit
+ * it was entered in, falling back to the first unit when both convert back into the shown values.
+ */
+export function parseStatCells(cells: string[]): string {
+  const values = cells.map((cell) => cell.trim()).filter((cell) => cell);
+  const units = getValueUnits(values);
+  if (!units) return parseNumber(values[0]);
+
+  const rows = [units.map((unit) => values.find((cell) => cell.endsWith(` ${unit}`)) ?? '')];
+  return parseUnitValues<UnitOfMeasure>(rows, units, units[0], 0).values[0];
+}
+
+/**
+ * Reads a Reddit upgrades table.  Upgrades that are N/A for the car, or were left empty, are not shown.
+ */
+export function applyRedditUpgradeTable<T extends object>(table: PostTable | undefined, section: T, formatLabel: (key: string) => string) {
+  if (!table) return;
+  const values = parseTableRows(table, getSectionLabels(section, formatLabel));
+  (Object.keys(section) as (keyof T & string)[]).forEach((key) => {
+    const fallback = section[key] === '' ? '' : 'N/A';
+    section[key] = (values[key] ?? fallback) as T[keyof T & string];
+  });
+}
+
+/**
+ * Reads a Discord upgrades section.  Stock, N/A and empty upgrades are not shown, so they keep their current value.
+ */
+export function applyDiscordUpgradeLines<T extends object>(
+  section: PostSection | undefined,
+  upgrades: T,
+  formatLabel: (key: string) => string,
+) {
+  if (!section) return;
+  Object.assign(upgrades, parseLabeledLines(section.lines, getSectionLabels(upgrades, formatLabel)));
+}
+
+/**
+ * Ratios are kept as shown, since the generators always show two decimals
+ */
+function applyRatio(gears: GearTuneSettings, label: string | undefined, ratio: string | undefined, finalDriveLabel: string) {
+  const index = label === finalDriveLabel ? 0 : parseInt(label ?? '', 10);
+  if (Number.isNaN(index) || index >= gears.ratios.length || !/^\d/.test(ratio ?? '')) return;
+  gears.ratios[index] = ratio as string;
+}
+
+export function applyRedditGears(table: PostTable | undefined, gears: GearTuneSettings) {
+  if (!table) return;
+  if (isNotApplicable(table)) {
+    gears.na = true;
+    return;
+  }
+  table.rows.forEach(([label, ratio]) => applyRatio(gears, label, ratio, 'Final Drive'));
+}
+
+export function applyDiscordGears(section: PostSection | undefined, gears: GearTuneSettings) {
+  section?.lines.forEach((line) => {
+    const [label, ratio] = line.trim().split(/\s+/);
+    applyRatio(gears, label, ratio, 'FR');
+  });
+}
+
+export function applyRedditDifferential(table: PostTable | undefined, diff: DifferentialTuneSettings) {
+  if (!table) return;
+  if (isNotApplicable(table)) {
+    diff.na = true;
+    return;
+  }
+
+  (['front', 'rear'] as const).forEach((position) => {
+    const row = getTableRow(table, position === 'front' ? 'Front' : 'Rear');
+    if (!row) return;
+    diff[position].accel = parseNumber(row[1]);
+    diff[position].decel = parseNumber(row[2]);
+  });
+  diff.center = parseNumber(getTableRow(table, 'Center')?.[1]);
+}
+
+export function applyDiscordDifferential(section: PostSection | undefined, diff: DifferentialTuneSettings) {
+  if (!section) return;
+
+  section.lines.forEach((line) => {
+    const match = /^([FR])\s+(\S+)\s+(\S+)$/.exec(line.trim());
+    if (!match) return;
+    const setting = diff[match[1] === 'F' ? 'front' : 'rear'];
+    setting.accel = parseNumber(match[2]);
+    setting.decel = parseNumber(match[3]);
+  });
+
+  const { center } = parseLabeledLines(section.lines, { center: 'Center' });
+  if (center) diff.center = parseNumber(center);
+}
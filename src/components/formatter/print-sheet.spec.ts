@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import getTestForm, { getFMTestForm } from '../../lib/testForm';
+import { PressureUnit } from '../../lib/types';
+
+import getFHSetupDocument from './horizon/fh-setup-document';
+import getFMSetupDocument from './motorsport/fm-setup-document';
+import getPrintSheet from './print-sheet';
+
+const LINK_URL = 'https://optn.club/formatter/forza/horizon5/v1/test';
+
+describe('print-sheet', () => {
+  it('should list the tune in the order of the tuning menus', () => {
+    const sheet = getPrintSheet(getFHSetupDocument(getTestForm(), 'Metric', LINK_URL));
+
+    expect(sheet.sections.map(({ title }) => title)).toEqual([
+      'Tires',
+      'Gearing',
+      'Alignment',
+      'Anti-roll Bars',
+      'Springs',
+      'Damping',
+      'Aero',
+      'Brakes',
+      'Differential',
+    ]);
+    expect(sheet.sections[4].tables.map(({ title }) => title)).toEqual(['Springs', 'Ride Height']);
+  });
+
+  it('should show values in the global units', () => {
+    const form = getTestForm();
+    form.tune.tires = { front: '29.5', rear: '30', units: PressureUnit.psi };
+
+    const [tires, , alignment] = getPrintSheet(getFHSetupDocument(form, 'Metric', LINK_URL)).sections;
+
+    expect(tires.tables[0].rows).toEqual([
+      { label: 'Front', values: ['2.0 bar'] },
+      { label: 'Rear', values: ['2.1 bar'] },
+    ]);
+    expect(alignment.tables[0].columns).toEqual(['Camber', 'Toe', 'Caster']);
+    expect(alignment.tables[0].rows[1]).toEqual({ label: 'Rear', values: ['-1.0°', '0.0°', ''] });
+  });
+
+  it('should keep values already in the global units', () => {
+    const form = getTestForm();
+    form.tune.tires = { front: '29.5', rear: '30', units: PressureUnit.psi };
+
+    const [tires] = getPrintSheet(getFHSetupDocument(form, 'Imperial', LINK_URL)).sections;
+
+    expect(tires.tables[0].rows).toEqual([
+      { label: 'Front', values: ['29.5 psi'] },
+      { label: 'Rear', values: ['30.0 psi'] },
+    ]);
+  });
+
+  it('should mark the settings that do not apply', () => {
+    const form = getFMTestForm();
+    form.tune.steeringWheel.na = true;
+
+    const sheet = getPrintSheet(getFMSetupDocument(form, 'Metric', LINK_URL));
+
+    expect(sheet.sections.find(({ title }) => title === 'Steering Wheel')?.tables[0].notApplicable).toBe(true);
+    expect(sheet.sections.find(({ title }) => title === 'Brakes')?.tables[0].notApplicable).toBe(false);
+  });
+});
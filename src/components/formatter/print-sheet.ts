@@ -0,0 +1,61 @@
+import { convert, getUnitsForGlobalUnit, switchUnit } from '../../lib/conversions';
+import { GlobalUnit, UnitOfMeasure } from '../../lib/types';
+
+import { DocumentCell, DocumentSection, DocumentTable, formatCellValue, SetupDocument } from './setup-document';
+
+export interface PrintTable {
+  title: string;
+  columns: string[];
+  rows: { label: string, values: string[] }[];
+  notApplicable: boolean;
+}
+
+export interface PrintSection {
+  title: string;
+  tables: PrintTable[];
+}
+
+export interface PrintSheet {
+  car: string;
+  rating: string;
+  shareCode: string;
+  sections: PrintSection[];
+}
+
+/**
+ * Unit values are converted to the global units, the other cells are shown as entered
+ */
+function formatPrintCell(cell: DocumentCell, globalUnit: GlobalUnit): string {
+  const units: UnitOfMeasure[] = Object.values(getUnitsForGlobalUnit(globalUnit));
+  if (cell.kind !== 'unit' || !cell.value || units.includes(cell.units)) {
+    return formatCellValue(cell);
+  }
+
+  const to = switchUnit(cell.units);
+  return formatCellValue({ ...cell, value: `${convert(cell.value, cell.units, to, cell.precision)}`, units: to });
+}
+
+function getPrintTable(table: DocumentTable, globalUnit: GlobalUnit): PrintTable {
+  return {
+    title: table.title,
+    columns: table.columns,
+    rows: table.rows.map((row) => ({ label: row.label, values: row.cells.map((cell) => formatPrintCell(cell, globalUnit)) })),
+    notApplicable: !!table.notApplicable,
+  };
+}
+
+function getPrintSection(section: DocumentSection, globalUnit: GlobalUnit): PrintSection {
+  return { title: section.title, tables: section.tables.map((table) => getPrintTable(table, globalUnit)) };
+}
+
+/**
+ * The tune sections of a setup document, which are in the order of the game's tuning menus
+ */
+export default function getPrintSheet(document: SetupDocument): PrintSheet {
+  return {
+    car: document.car,
+    rating: document.rating,
+    shareCode: document.shareCode,
+    sections: document.tune.map((section) => getPrintSection(section, document.globalUnit)),
+  };
+}
@@ -0,0 +1,67 @@
+import { DocumentSection, DocumentTable, getTableGrid, OutputTarget, SetupDocument } from './setup-document';
+
+const tableSeparator = '\n######\n';
+
+enum TextAlign {
+  left = ':--',
+  right = '--:',
+  center = ':-:',
+}
+
+function bold(value: string): string {
+  if (!value) return value;
+  return `**${value.replace(/\*\*/g, '')}**`;
+}
+
+function formatTableRow(row: string[], boldFirstCol = false) {
+  const r = [...row];
+  if (boldFirstCol) r[0] = bold(r[0]);
+  return `|${r.join('|')}|`;
+}
+
+function formatTable(header: string[], body: string[][], boldFirstCol = false, textAlign = TextAlign.right): string[] {
+  const rowSeparator = [':--', textAlign];
+  for (let index = 2; index < header.length; index++) {
+    rowSeparator.push(textAlign);
+  }
+  return [
+    formatTableRow(header.map(bold)),
+    formatTableRow(rowSeparator),
+    ...body.map((row) => formatTableRow(row, boldFirstCol)),
+    tableSeparator,
+  ];
+}
+
+function formatDocumentTable(table: DocumentTable): string[] {
+  const { header, body } = getTableGrid(table);
+  const align = table.align === 'left' ? TextAlign.left : TextAlign.right;
+
+  return formatTable(header, body, table.boldLabels, align);
+}
+
+function formatSections(sections: DocumentSection[]): string[] {
+  return sections.flatMap((section) => section.tables.flatMap(formatDocumentTable));
+}
+
+export function formatRedditPost(document: SetupDocument) {
+  return [
+    `${document.heading}\n`,
+    ...(document.statsTable ? formatDocumentTable(document.statsTable) : []),
+    `[View this tune on optn.club](${document.linkUrl})\n`,
+    '---\n',
+    `## ${document.buildTitle}\n`,
+    ...formatSections(document.build),
+    '---\n',
+    '## Tune\n',
+    ...formatSections(document.tune),
+    '---\n',
+    `Formatted text generated by the [OPTN.club ${document.formatter.name}](${document.formatter.url})  \n`,
+    'Submit bugs, feature requests, and questions on [Github](https://github.com/OPTN-Club/optn.club/issues)',
+  ].join('\n');
+}
+
+export const redditOutput: OutputTarget = {
+  id: 'reddit',
+  label: 'Reddit',
+  render: formatRedditPost,
+};
@@ -0,0 +1,489 @@
+import { capitalCase } from 'change-case';
+
+import {
+  BrakeTuneSettings,
+  DifferentialTuneSettings,
+  FrontAndRearSettings,
+  FrontAndRearWithUnits,
+  GearTuneSettings,
+  GlobalUnit,
+  UnitOfMeasure,
+} from '../../lib/types';
+import { formatUnit, formatUnitHeaders } from '../../lib/unitsOfMeasure';
+import { formatFloat, addSuffix as suffixize } from '../../lib/utils';
+
+export interface TextCell {
+  kind: 'text';
+  value: string;
+  /**
+   * Values equal to the game's default are left out of compact outputs
+   */
+  defaultValue?: string;
+  /**
+   * The units of the value the text is shown in place of, ie. aero that is N/A
+   */
+  units?: UnitOfMeasure;
+}
+
+export interface NumberCell {
+  kind: 'number';
+  value: string;
+  precision: number;
+  suffix: string;
+  defaultValue?: string;
+}
+
+export interface UnitCell {
+  kind: 'unit';
+  value: string;
+  units: UnitOfMeasure;
+  precision: number;
+}
+
+/**
+ * A front and rear pair shown in a single cell, ie. `Front 245 mm, Rear 275 mm`
+ */
+export interface FrontRearCell {
+  kind: 'frontRear';
+  front: string;
+  rear: string;
+  suffix: string;
+  shortSuffix: string;
+}
+
+export interface EmptyCell {
+  kind: 'empty';
+}
+
+export type DocumentCell = TextCell | NumberCell | UnitCell | FrontRearCell | EmptyCell;
+
+export interface DocumentRow {
+  label: string;
+  /**
+   * Used by compact outputs, ie. `F ` instead of `Front`
+   */
+  shortLabel?: string;
+  cells: DocumentCell[];
+}
+
+export interface DocumentTable {
+  title: string;
+  columns: string[];
+  /**
+   * Axle tables have a front and a rear row, each column is a setting.  List tables have a row per setting.
+   */
+  layout: 'axles' | 'list';
+  rows: DocumentRow[];
+  /**
+   * Outputs fall back to their own alignment, ie. Reddit right aligns values and Discord left aligns front and rear values
+   */
+  align?: 'left' | 'right';
+  boldLabels?: boolean;
+  notApplicable?: boolean;
+}
+
+export interface DocumentSection {
+  title: string;
+  tables: DocumentTable[];
+  /**
+   * Listed by compact outputs instead of the tables where they differ, ie. Discord lists bump before rebound for both games
+   */
+  compactTables?: DocumentTable[];
+}
+
+/**
+ * A setup as sections of tables, independent of the game it is for and the text it is rendered as
+ */
+export interface SetupDocument {
+  /**
+   * The unit system the document was created for, the stats are entered in it
+   */
+  globalUnit: GlobalUnit;
+  car: string;
+  rating: string;
+  /**
+   * The first line of Reddit posts, which each game has always written its own way
+   */
+  heading: string;
+  classification: string;
+  pi: string;
+  stats: DocumentRow[];
+  /**
+   * The stats as Reddit posts show them, FM posts show them in all unit systems
+   */
+  statsTable?: DocumentTable;
+  shareCode: string;
+  /**
+   * The share codes Discord posts list, FM posts have never listed them
+   */
+  shareCodes: DocumentRow[];
+  buildTitle: string;
+  build: DocumentSection[];
+  /**
+   * The build as compact outputs list it, ie. Discord which lists tires and wheels apart
+   */
+  compactBuild: DocumentSection[];
+  tune: DocumentSection[];
+  linkUrl: string;
+  formatter: {
+    name: string;
+    url: string;
+    /**
+     * Discord posts link to the formatter they were made with
+     */
+    discordUrl: string;
+  };
+}
+
+/**
+ * Renders a setup document as the text of a post
+ */
+export interface OutputTarget {
+  id: string;
+  label: string;
+  render: (document: SetupDocument) => string;
+}
+
+/**
+ * A value in the unit it was entered in, ie. stats which are entered in the global unit
+ */
+export function formatCellValue(cell: DocumentCell): string {
+  switch (cell.kind) {
+    case 'unit':
+      return `${formatFloat(cell.value, cell.precision)} ${cell.units}`;
+    case 'number':
+      return formatFloat(cell.value, cell.precision, cell.suffix);
+    case 'text':
+      return cell.value;
+    default:
+      return '';
+  }
+}
+
+export interface TableGrid {
+  header: string[];
+  body: string[][];
+}
+
+const falseyValues = [null, undefined, '', 'N/A', 'Stock', 'None'];
+
+export function showValue(value: string | undefined): boolean {
+  return !falseyValues.includes(value);
+}
+
+export function showFrontRearValues(values: FrontAndRearSettings) {
+  return showValue(values.front) || showValue(values.rear);
+}
+
+export function textCell(value: string, defaultValue?: string): TextCell {
+  return { kind: 'text', value, defaultValue };
+}
+
+export function unitTextCell(value: string, units: UnitOfMeasure): TextCell {
+  return { kind: 'text', value, units };
+}
+
+export function numberCell(value: string, precision: number, suffix: string, defaultValue?: string): NumberCell {
+  return {
+    kind: 'number',
+    value,
+    precision,
+    suffix,
+    defaultValue,
+  };
+}
+
+export function unitCell(value: string, units: UnitOfMeasure, precision = 1): UnitCell {
+  return {
+    kind: 'unit',
+    value,
+    units,
+    precision,
+  };
+}
+
+export function frontRearCell(value: FrontAndRearSettings, suffix = '', shortSuffix = ''): FrontRearCell {
+  return {
+    kind: 'frontRear',
+    front: value.front,
+    rear: value.rear,
+    suffix,
+    shortSuffix,
+  };
+}
+
+export const emptyCell: EmptyCell = { kind: 'empty' };
+
+function axleRows(front: DocumentCell[], rear: DocumentCell[]): DocumentRow[] {
+  return [
+    { label: 'Front', shortLabel: 'F ', cells: front },
+    { label: 'Rear', shortLabel: 'R ', cells: rear },
+  ];
+}
+
+export function frontRearTable(title: string, columns: string[], values: FrontAndRearSettings[], precision = 1, suffix = ''): DocumentTable {
+  return {
+    title,
+    columns,
+    layout: 'axles',
+    rows: axleRows(
+      values.map((value) => numberCell(value.front, precision, suffix)),
+      values.map((value) => numberCell(value.rear, precision, suffix)),
+    ),
+    notApplicable: values.every((value) => value.na),
+  };
+}
+
+/**
+ * Shown in all unit systems, the column is left blank so that each unit gets its own column
+ */
+export function unitTable(title: string, value: FrontAndRearWithUnits, precision = 1): DocumentTable {
+  return {
+    title,
+    columns: [''],
+    layout: 'axles',
+    rows: axleRows([unitCell(value.front, value.units, precision)], [unitCell(value.rear, value.units, precision)]),
+    notApplicable: value.na,
+  };
+}
+
+export function tiresSection(tires: FrontAndRearWithUnits): DocumentSection {
+  return { title: 'Tires', tables: [unitTable('Tires', tires)] };
+}
+
+export function gearsSection(gears: GearTuneSettings): DocumentSection {
+  const precision = 2;
+  const section: DocumentSection = { title: 'Gearing', tables: [] };
+  const table: DocumentTable = {
+    title: 'Gears',
+    columns: ['Ratio'],
+    layout: 'list',
+    rows: [],
+    notApplicable: gears.na,
+  };
+
+  if (!gears.na) {
+    table.rows.push({ label: 'Final Drive', shortLabel: 'FR', cells: [textCell(parseFloat(gears.ratios[0]).toFixed(precision))] });
+    for (let index = 1; index < gears.ratios.length; index++) {
+      const value = parseFloat(gears.ratios[index]);
+      if (!value) break;
+      table.rows.push({ label: `${index}${suffixize(index)}`, cells: [textCell(value.toFixed(precision))] });
+    }
+
+    if (table.rows.length === 1 && gears.ratios[0] === '') return section;
+  }
+
+  section.tables.push(table);
+  return section;
+}
+
+/**
+ * Angles only have a single value, ie. caster
+ */
+export function alignmentSection(
+  camber: FrontAndRearSettings,
+  toe: FrontAndRearSettings,
+  angles: [string, string][],
+  na = false,
+): DocumentSection {
+  const table = frontRearTable('Alignment', ['Camber', 'Toe'], [camber, toe], 1, '°');
+  angles.forEach(([label, value]) => {
+    table.columns.push(label);
+    table.rows[0].cells.push(numberCell(value, 1, '°'));
+    table.rows[1].cells.push(emptyCell);
+  });
+  table.notApplicable = na || table.notApplicable;
+
+  // Camber and toe are the only front and rear values Discord right aligns
+  return { title: 'Alignment', tables: [table], compactTables: [{ ...table, align: 'right' }] };
+}
+
+export function antiRollBarsSection(title: string, arb: FrontAndRearSettings): DocumentSection {
+  return { title: 'Anti-roll Bars', tables: [frontRearTable(title, [''], [arb])] };
+}
+
+export function springsSection(springs: FrontAndRearWithUnits, rideHeight: FrontAndRearWithUnits): DocumentSection {
+  return { title: 'Springs', tables: [unitTable('Springs', springs), unitTable('Ride Height', rideHeight)] };
+}
+
+/**
+ * FH tables list rebound first, compact outputs list bump first for both games
+ */
+export function dampingSection(bump: FrontAndRearSettings, rebound: FrontAndRearSettings, reboundFirst = false): DocumentSection {
+  const table = frontRearTable('Damping', ['Bump', 'Rebound'], [bump, rebound]);
+  if (!reboundFirst) return { title: 'Damping', tables: [table] };
+
+  return {
+    title: 'Damping',
+    tables: [frontRearTable('Damping', ['Rebound', 'Bump'], [rebound, bump])],
+    compactTables: [table],
+  };
+}
+
+export function aeroSection(aero: FrontAndRearWithUnits): DocumentSection {
+  const table = unitTable('Aero', aero);
+  table.rows.forEach((row, index) => {
+    const value = index === 0 ? aero.front : aero.rear;
+    if (value === '') row.cells = [unitTextCell('N/A', aero.units)];
+  });
+
+  return { title: 'Aero', tables: [table] };
+}
+
+export function brakesSection(brake: BrakeTuneSettings): DocumentSection {
+  const table: DocumentTable = {
+    title: 'Brakes',
+    columns: ['%'],
+    layout: 'list',
+    rows: [
+      { label: 'Balance', cells: [numberCell(brake.bias, 0, '%', '50')] },
+      { label: 'Pressure', cells: [numberCell(brake.pressure, 0, '%', '100')] },
+    ],
+    notApplicable: brake.na || (!brake.bias && !brake.pressure),
+  };
+
+  return { title: 'Brakes', tables: [table] };
+}
+
+export interface DifferentialRows {
+  front: boolean;
+  rear: boolean;
+  center: boolean;
+}
+
+/**
+ * Compact outputs list the rows that have a value, whichever wheels are driven
+ */
+export function differentialSection(diff: DifferentialTuneSettings, show: DifferentialRows): DocumentSection {
+  const rows: Record<keyof DifferentialRows, DocumentRow> = {
+    front: { label: 'Front', shortLabel: 'F ', cells: [numberCell(diff.front.accel, 0, '%'), numberCell(diff.front.decel, 0, '%')] },
+    rear: { label: 'Rear', shortLabel: 'R ', cells: [numberCell(diff.rear.accel, 0, '%'), numberCell(diff.rear.decel, 0, '%')] },
+    center: { label: 'Center', cells: [numberCell(diff.center, 0, '%', '50'), emptyCell] },
+  };
+  const table: DocumentTable = {
+    title: 'Differential',
+    columns: ['Accel', 'Decel'],
+    layout: 'list',
+    rows: [],
+    notApplicable: diff.na,
+  };
+
+  return {
+    title: 'Differential',
+    tables: [{ ...table, rows: (['front', 'rear', 'center'] as const).filter((key) => show[key]).map((key) => rows[key]) }],
+    compactTables: [{ ...table, rows: [rows.front, rows.rear, rows.center] }],
+  };
+}
+
+const labelMap: Record<string, string> = {
+  chassisReinforcement: 'Chassis',
+  frontArb: 'ARB F',
+  rearArb: 'ARB R',
+  weightReduction: 'Weight',
+  differential: 'Diff',
+  frontBumper: 'F Bumper',
+  rearBumper: 'R Bumper',
+  rearWing: 'R Wing',
+};
+
+export function formatLabel(label: string) {
+  if (label in labelMap) {
+    return labelMap[label];
+  }
+  return capitalCase(label);
+}
+
+export function listTable(title: string, rows: DocumentRow[]): DocumentTable {
+  return {
+    title,
+    columns: [''],
+    layout: 'list',
+    rows,
+    align: 'left',
+  };
+}
+
+function getUpgradeRows<T extends object>(upgrades: T, show: (value: string) => boolean): DocumentRow[] {
+  return (Object.keys(upgrades) as (keyof T & string)[])
+    .filter((key) => show(`${upgrades[key]}`))
+    .map((key) => ({ label: capitalCase(key), shortLabel: formatLabel(key), cells: [textCell(`${upgrades[key]}`)] }));
+}
+
+/**
+ * Upgrades that are N/A for the car, or were left empty, are left out
+ */
+export function upgradesSection<T extends object>(title: string, upgrades: T): DocumentSection {
+  const rows = getUpgradeRows(upgrades, (value) => value !== '' && value !== 'N/A');
+  return { title, tables: [listTable(title, rows)] };
+}
+
+/**
+ * Parts left empty are left out, a section without parts has no table
+ */
+export function appearanceSection<T extends object>(title: string, upgrades: T): DocumentSection {
+  const rows = getUpgradeRows(upgrades, (value) => value !== '');
+  return { title, tables: rows.length ? [listTable(title, rows)] : [] };
+}
+
+/**
+ * Conversions left empty are shown as Stock, the body kit is listed with the aspiration
+ */
+export function conversionsSection(drivetrain: string, engine: string, aspiration: string, bodyKit: string): DocumentSection {
+  const rows: DocumentRow[] = [
+    { label: 'Engine', cells: [textCell(engine || 'Stock')] },
+    { label: 'Drivetrain', cells: [textCell(drivetrain || 'Stock')] },
+  ];
+  if (aspiration) {
+    rows.push({ label: 'Aspiration', cells: [textCell(aspiration)] });
+    rows.push({ label: 'Body Kit', cells: [textCell(bodyKit || 'Stock')] });
+  }
+
+  return { title: 'Conversions', tables: [listTable('Conversions', rows)] };
+}
+
+/**
+ * Unit cells get a column per unit, unless the column has a header to show them under
+ */
+function formatGridCell(cell: DocumentCell, column: string): string[] {
+  switch (cell.kind) {
+    case 'number':
+      return [formatFloat(cell.value, cell.precision, cell.suffix)];
+    case 'unit':
+      if (column) return [formatUnit(cell.value, cell.units, cell.precision, true).join(' / ')];
+      return formatUnit(cell.value, cell.units, cell.precision);
+    case 'frontRear':
+      return [`Front ${cell.front}${cell.suffix}, Rear ${cell.rear}${cell.suffix}`];
+    case 'empty':
+      return [''];
+    default:
+      // Followed by a blank for each unit, as the posts have always shown N/A aero
+      if (cell.units && !column) return [cell.value, ...formatUnitHeaders(cell.units).map(() => '')];
+      return [cell.value];
+  }
+}
+
+/**
+ * Unit columns get a header per unit, even when every row shows a text instead, ie. aero that is N/A
+ */
+function getColumnHeaders(table: DocumentTable, index: number): string[] {
+  const column = table.columns[index];
+  const units = table.rows
+    .map((row) => row.cells[index])
+    .map((cell) => (cell?.kind === 'unit' || cell?.kind === 'text' ? cell.units : undefined))
+    .find((unit) => unit);
+  if (!column && units) return formatUnitHeaders(units);
+  return [column];
+}
+
+/**
+ * A table as rows of text for outputs that show every value in all unit systems, ie. Reddit
+ */
+export function getTableGrid(table: DocumentTable): TableGrid {
+  const headers = table.columns.map((column, index) => getColumnHeaders(table, index));
+
+  const body = table.notApplicable
+    ? [['Not Applicable', ...headers.flatMap((cells) => cells.map(() => ''))]]
+    : table.rows.map((row) => [row.label, ...row.cells.flatMap((cell, index) => formatGridCell(cell, table.columns[index]))]);
+
+  return { header: [table.title, ...headers.flat()], body };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import { getClassColor } from '../../lib/carClasses';
+import getTestForm, { getFMTestForm } from '../../lib/testForm';
+
+import fhTuneCardGenerator from './horizon/fh-tune-card-generator';
+import { FHPIClass } from './horizon/FHSetup';
+import fmTuneCardGenerator from './motorsport/fm-tune-card-generator';
+import { FMPIClass } from './motorsport/FMSetup';
+
+const LINK_URL = 'https://optn.club/formatter/forza/horizon5/v1/test';
+
+describe('tune-card', () => {
+  it('should render the same card for a setup', () => {
+    const card = fhTuneCardGenerator(getTestForm(), 'Metric', LINK_URL);
+
+    expect(fhTuneCardGenerator(getTestForm(), 'Metric', LINK_URL)).toBe(card);
+    expect(card).toMatchSnapshot();
+    expect(fmTuneCardGenerator(getFMTestForm(), 'Imperial', LINK_URL)).toMatchSnapshot();
+  });
+
+  it('should color the class badge with the class color from the game', () => {
+    const form = getTestForm();
+    form.stats.classification = FHPIClass.S1;
+
+    expect(getClassColor('S1')).toBe('#b960e8');
+    expect(fhTuneCardGenerator(form, 'Metric', LINK_URL)).toContain('width="40" height="32" rx="4" fill="#b960e8"');
+
+    const fmForm = getFMTestForm();
+    fmForm.stats.classification = FMPIClass.P;
+    expect(getClassColor('P')).toBeUndefined();
+    expect(fmTuneCardGenerator(fmForm, 'Metric', LINK_URL)).toContain('width="40" height="32" rx="4" fill="rgb(0, 133, 163)"');
+  });
+
+  it('should show the stats in the global unit', () => {
+    const form = getFMTestForm();
+    form.stats.weight = '1400';
+
+    expect(fmTuneCardGenerator(form, 'Metric', LINK_URL)).toContain('>1400 kg</text>');
+    expect(fmTuneCardGenerator(form, 'Imperial', LINK_URL)).toContain('>1400 lbs</text>');
+  });
+
+  it('should span both columns with tables too wide for one', () => {
+    const card = fmTuneCardGenerator(getFMTestForm(), 'Metric', LINK_URL);
+    const alignment = card.split('\n').findIndex((line) => line.includes('>Alignment</text>'));
+
+    expect(card.split('\n')[alignment - 1]).toContain('x="32" y="450" width="736"');
+  });
+
+  it('should escape the text of the card', () => {
+    const form = getTestForm();
+    form.make = 'Aston <Martin> & Co';
+
+    expect(fhTuneCardGenerator(form, 'Metric', LINK_URL)).toContain('Aston &lt;Martin&gt; &amp; Co');
+  });
+});
@@ -0,0 +1,257 @@
+import optnColors from '../../../optn-colors.json';
+import { getClassColor } from '../../lib/carClasses';
+
+import {
+  DocumentRow,
+  DocumentTable,
+  formatCellValue,
+  getTableGrid,
+  OutputTarget,
+  SetupDocument,
+  TableGrid,
+} from './setup-document';
+
+const palette = new Map(optnColors.map(({ name, rgb }) => [name, rgb]));
+
+function color(name: string): string {
+  return palette.get(name) ?? 'rgb(0, 0, 0)';
+}
+
+const colors = {
+  background: color('optn-Rich-Black'),
+  panel: color('optn-Midnight Blue'),
+  text: color('optn-Ghost-White'),
+  muted: color('Light Mist'),
+  accent: color('optn-Sky-Blue'),
+  title: color('optn-Vibrant-Green'),
+  brand: color('optn-Livery-Teal'),
+};
+
+/**
+ * Every position is derived from these, so a setup always renders the same card
+ */
+export const CARD_WIDTH = 800;
+const PADDING = 32;
+const GAP = 16;
+const HEADER_HEIGHT = 96;
+const STAT_HEIGHT = 56;
+const STATS_PER_ROW = 4;
+const ROW_HEIGHT = 22;
+const TABLE_TITLE_HEIGHT = 32;
+const FOOTER_HEIGHT = 48;
+const COLUMN_WIDTH = (CARD_WIDTH - PADDING * 2 - GAP) / 2;
+
+const FONT_TITLE = 'Exo 2, sans-serif';
+const FONT_BODY = 'Work Sans, sans-serif';
+
+interface TextOptions {
+  size: number;
+  fill: string;
+  font?: string;
+  weight?: 'normal' | 'bold';
+  anchor?: 'start' | 'middle' | 'end';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Empty values have no element
+ */
+function text(x: number, y: number, value: string, options: TextOptions): string {
+  if (!value) return '';
+  const {
+    size, fill, font = FONT_BODY, weight = 'normal', anchor = 'start',
+  } = options;
+  const position = `x="${x}" y="${y}" text-anchor="${anchor}"`;
+  const style = `font-family="${font}" font-size="${size}" font-weight="${weight}" fill="${fill}"`;
+  return `<text ${position} ${style}>${escapeXml(value)}</text>`;
+}
+
+function rect(x: number, y: number, width: number, height: number, fill: string, radius = 0): string {
+  return `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="${radius}" fill="${fill}"/>`;
+}
+
+/**
+ * The class letter on the class color, followed by the PI, like the badge in game
+ */
+function renderClassBadge(document: SetupDocument, right: number, y: number): string[] {
+  const classWidth = 40;
+  const piWidth = 56;
+  const x = right - classWidth - piWidth;
+  const classColor = getClassColor(document.classification) ?? colors.brand;
+
+  return [
+    rect(x, y, classWidth + piWidth, 32, colors.text, 4),
+    rect(x, y, classWidth, 32, classColor, 4),
+    text(x + classWidth / 2, y + 22, document.classification, {
+      size: 18, fill: colors.background, font: FONT_TITLE, weight: 'bold', anchor: 'middle',
+    }),
+    text(x + classWidth + piWidth / 2, y + 22, document.pi, {
+      size: 18, fill: colors.background, font: FONT_TITLE, weight: 'bold', anchor: 'middle',
+    }),
+  ];
+}
+
+function renderHeader(document: SetupDocument): string[] {
+  return [
+    rect(0, 0, CARD_WIDTH, HEADER_HEIGHT, colors.panel),
+    text(PADDING, 58, document.car, {
+      size: 28, fill: colors.text, font: FONT_TITLE, weight: 'bold',
+    }),
+    ...(document.classification ? renderClassBadge(document, CARD_WIDTH - PADDING, 32) : []),
+  ];
+}
+
+function getStatsHeight(stats: DocumentRow[]): number {
+  return Math.ceil(stats.length / STATS_PER_ROW) * STAT_HEIGHT;
+}
+
+function renderStats(stats: DocumentRow[], top: number): string[] {
+  const width = (CARD_WIDTH - PADDING * 2) / STATS_PER_ROW;
+
+  return stats.flatMap((row, index) => {
+    const x = PADDING + (index % STATS_PER_ROW) * width;
+    const y = top + Math.floor(index / STATS_PER_ROW) * STAT_HEIGHT;
+    return [
+      text(x, y + 18, row.label.toUpperCase(), { size: 12, fill: colors.muted }),
+      text(x, y + 42, row.cells.map(formatCellValue).join(' '), {
+        size: 20, fill: colors.accent, font: FONT_TITLE, weight: 'bold',
+      }),
+    ];
+  });
+}
+
+interface TableLayout {
+  grid: TableGrid;
+  labelWidth: number;
+  columnWidths: number[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Text is not measured, so the layout does not depend on the fonts installed where it is rendered
+ */
+function estimateWidth(value: string, size: number): number {
+  return Math.ceil(value.length * size * 0.6);
+}
+
+/**
+ * Tables too wide for a column of the card span both columns, the spare width is shared by the value columns
+ */
+function getTableLayout(table: DocumentTable): TableLayout {
+  const grid = getTableGrid(table);
+  const [, ...columns] = grid.header;
+  const labelWidth = Math.max(...grid.body.map(([label]) => estimateWidth(label, 14))) + GAP;
+  const minWidths = columns.map((column, index) => Math.max(
+    estimateWidth(column, 12),
+    ...grid.body.map((row) => estimateWidth(row[index + 1] ?? '', 14)),
+  ) + GAP);
+  const minWidth = GAP + labelWidth + minWidths.reduce((sum, width) => sum + width, 0);
+  const width = minWidth > COLUMN_WIDTH ? CARD_WIDTH - PADDING * 2 : COLUMN_WIDTH;
+  const spare = Math.floor((width - minWidth) / Math.max(1, columns.length));
+
+  return {
+    grid,
+    labelWidth,
+    columnWidths: minWidths.map((columnWidth) => columnWidth + spare),
+    width,
+    height: TABLE_TITLE_HEIGHT + (grid.body.length + 1) * ROW_HEIGHT + GAP / 2,
+  };
+}
+
+/**
+ * A panel with the title, the column headers and a row per axle or setting, values are right aligned
+ */
+function renderTable(layout: TableLayout, x: number, y: number): string[] {
+  const { grid, labelWidth, columnWidths } = layout;
+  const [title, ...columns] = grid.header;
+  const left = x + GAP / 2 + labelWidth;
+  const columnRight = columnWidths.map((_, index) => left + columnWidths.slice(0, index + 1).reduce((sum, width) => sum + width, 0));
+
+  const rows = grid.body.flatMap(([label, ...cells], rowIndex) => {
+    const rowY = y + TABLE_TITLE_HEIGHT + (rowIndex + 2) * ROW_HEIGHT - 6;
+    return [
+      text(x + GAP / 2, rowY, label, { size: 14, fill: colors.muted }),
+      ...cells.map((cell, index) => text(columnRight[index], rowY, cell, { size: 14, fill: colors.text, anchor: 'end' })),
+    ];
+  });
+
+  return [
+    rect(x, y, layout.width, layout.height, colors.panel, 8),
+    text(x + GAP / 2, y + 24, title, {
+      size: 16, fill: colors.title, font: FONT_TITLE, weight: 'bold',
+    }),
+    ...columns.map((column, index) => text(columnRight[index], y + TABLE_TITLE_HEIGHT + ROW_HEIGHT - 6, column, {
+      size: 12, fill: colors.muted, weight: 'bold', anchor: 'end',
+    })),
+    ...rows,
+  ];
+}
+
+/**
+ * Tables fill two columns, each going into whichever column is shorter.  Tables spanning both
+ * columns start below the longer one.
+ */
+function renderTables(tables: DocumentTable[], top: number): { elements: string[], height: number } {
+  const heights = [0, 0];
+  const elements = tables.flatMap((table) => {
+    const layout = getTableLayout(table);
+    if (layout.width > COLUMN_WIDTH) {
+      const y = top + Math.max(...heights);
+      heights.fill(y - top + layout.height + GAP);
+      return renderTable(layout, PADDING, y);
+    }
+
+    const column = heights[1] < heights[0] ? 1 : 0;
+    const y = top + heights[column];
+    heights[column] += layout.height + GAP;
+    return renderTable(layout, PADDING + column * (COLUMN_WIDTH + GAP), y);
+  });
+
+  return { elements, height: Math.max(...heights) };
+}
+
+export function renderTuneCard(document: SetupDocument): string {
+  const statsTop = HEADER_HEIGHT + GAP;
+  const statsHeight = getStatsHeight(document.stats);
+  const shareCodeTop = statsTop + statsHeight;
+  const shareCodeHeight = document.shareCode ? 32 : 0;
+  const tablesTop = shareCodeTop + shareCodeHeight + GAP;
+  const tables = renderTables(document.tune.flatMap((section) => section.tables), tablesTop);
+  const footerTop = tablesTop + tables.height;
+  const height = footerTop + FOOTER_HEIGHT;
+
+  const elements = [
+    rect(0, 0, CARD_WIDTH, height, colors.background),
+    ...renderHeader(document),
+    ...renderStats(document.stats, statsTop),
+    ...(document.shareCode ? [text(PADDING, shareCodeTop + 20, `Share Code ${document.shareCode}`, { size: 14, fill: colors.text })] : []),
+    ...tables.elements,
+    text(PADDING, footerTop + 24, `OPTN.club ${document.formatter.name}`, { size: 12, fill: colors.muted }),
+    text(CARD_WIDTH - PADDING, footerTop + 24, 'optn.club', {
+      size: 14, fill: colors.accent, font: FONT_TITLE, weight: 'bold', anchor: 'end',
+    }),
+  ];
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${height}" viewBox="0 0 ${CARD_WIDTH} ${height}">`,
+    `  <clipPath id="card">${rect(0, 0, CARD_WIDTH, height, colors.background, 16)}</clipPath>`,
+    '  <g clip-path="url(#card)">',
+    ...elements.filter((element) => element).map((element) => `    ${element}`),
+    '  </g>',
+    '</svg>',
+  ].join('\n');
+}
+
+export const tuneCardOutput: OutputTarget = {
+  id: 'svg',
+  label: 'Tune Card',
+  render: renderTuneCard,
+};
@@ -1,25 +1,27 @@
 import { computed, ComputedRef, reactive, Ref, watch } from 'vue';
-import { useRouter } from 'vue-router';
 
 import { FormattingFormProps } from '../../lib/types';
-import useFormEncoder from '../../lib/useFormEncoder';
+import { useUrlAdapter } from '../../lib/useAdapters';
+import useFormEncoder, { FormEncoderOptions } from '../../lib/useFormEncoder';
 import { UseGlobalUnits, useGlobalUnitsProvider } from '../../lib/useGlobalUnits';
+import useRouterUrlAdapter from '../../router/useRouterUrlAdapter';
 
 interface UseFormattingForm<T> {
   form: T;
   globalUnits: Ref<UseGlobalUnits>;
   encoded: ComputedRef<string>;
   reset(): void;
+  load(values: T): void;
 }
 
 export default function useSetupForm<T extends object>(
   props: FormattingFormProps,
-  blankFormFactory: () => T,
+  encoderOptions: FormEncoderOptions,
   useLegacyDeserialization: boolean = false,
 ) {
-  const router = useRouter();
+  const url = useUrlAdapter() ?? useRouterUrlAdapter();
 
-  const encoder = useFormEncoder<T>(blankFormFactory);
+  const encoder = useFormEncoder<T>(encoderOptions);
 
   const form: T = reactive(encoder.decode(props.encodedForm, useLegacyDeserialization)) as T;
 
@@ -31,27 +33,30 @@ export default function useSetupForm<T extends object>(
     if (current !== old) {
       console.log('Updated JSON: ', JSON.stringify(form));
 
-      router.replace({
-        params: {
-          encodedForm: current,
-        },
-      });
+      url.replaceEncodedForm(current);
     }
   });
 
-  function reset() {
-    const defaultForm = blankFormFactory();
-    Object.keys(defaultForm).forEach((k) => {
+  /**
+   * Replaces the whole form, ie. with a tune imported from a formatted post
+   */
+  function load(values: T) {
+    Object.keys(values).forEach((k) => {
       const key = k as keyof T;
-      form[key] = defaultForm[key];
+      form[key] = values[key];
     });
   }
 
+  function reset() {
+    load(encoderOptions.getDefaultForm() as T);
+  }
+
   const state: UseFormattingForm<T> = {
     form,
     encoded: encodedForm,
     globalUnits,
     reset,
+    load,
   };
 
   return state;
@@ -0,0 +1,10 @@
+export { default as fhBBCodeGenerator } from '../components/formatter/horizon/fh-bbcode-generator';
+export { default as fhDiscordEmbedGenerator } from '../components/formatter/horizon/fh-discord-embed-generator';
+export { default as fhDiscordGenerator } from '../components/formatter/horizon/fh-discord-generator';
+export * from '../components/formatter/horizon/fh-post-parser';
+export { default as parseFHPost } from '../components/formatter/horizon/fh-post-parser';
+export { default as fhRedditGenerator } from '../components/formatter/horizon/fh-reddit-generator';
+export { default as fhSetupJson } from '../components/formatter/horizon/fh-setup-json';
+export { default as fhTuneCardGenerator } from '../components/formatter/horizon/fh-tune-card-generator';
+export * from '../components/formatter/horizon/FHSetup';
+export { default as getFHDefaultFormV1 } from '../components/formatter/horizon/FHSetup';
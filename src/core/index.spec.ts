@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import {
+  calculateGearing,
+  calculateTune,
+  createMemoryStorage,
+  decodeFormLink,
+  decodePreset,
+  defaultDampingModifiers,
+  defaultFMModifiers,
+  defaultSpringTypeModifiersMap,
+  DriveType,
+  encodeFormLink,
+  encodePreset,
+  findMotionRatio,
+  GearSpacing,
+  getCalculatorUnits,
+  getDefaultPreset,
+  getGlobalUnits,
+  horizon,
+  motorsport,
+  parseFormLink,
+  proposeFHTune,
+  readStoredState,
+  setGlobalUnits,
+  SpeedUnit,
+  SpringsType,
+  sweepTune,
+  WeightUnit,
+  writeStoredState,
+} from '.';
+
+import { getFMTestForm } from '../lib/testForm';
+
+describe('core', () => {
+  it('should load without browser globals', () => {
+    expect(typeof window).toBe('undefined');
+    expect(typeof localStorage).toBe('undefined');
+  });
+
+  it('should encode, decode and format tunes', () => {
+    const link = encodeFormLink('fm8', getFMTestForm());
+    const form = decodeFormLink('fm8', parseFormLink(link)) as motorsport.FMSetupV3;
+
+    expect(form).toEqual(getFMTestForm());
+    expect(motorsport.parseFMPost(motorsport.fmDiscordGenerator(form, 'Metric', link))).toEqual(form);
+  });
+
+  it('should read and write stored state through a storage adapter', () => {
+    const storage = createMemoryStorage({ FH_UNITS: '{"tires":"psi"}' });
+
+    expect(readStoredState(storage, 'FH_UNITS', { tires: 'bar' })).toEqual({ tires: 'psi' });
+    expect(readStoredState(storage, 'FM_UNITS', { tires: 'bar' })).toEqual({ tires: 'bar' });
+    expect(storage.getItem('FM_UNITS')).toBe('{"tires":"bar"}');
+
+    writeStoredState(storage, 'FM_UNITS', { tires: 'psi' });
+    expect(storage.getItem('FM_UNITS')).toBe('{"tires":"psi"}');
+  });
+
+  it('should read the global units without the Vue app', () => {
+    const storage = createMemoryStorage();
+
+    expect(getGlobalUnits(storage)).toEqual({ globalUnit: 'Metric', convertOnUnitChange: true });
+
+    setGlobalUnits(storage, { globalUnit: 'Imperial', convertOnUnitChange: false });
+    expect(getGlobalUnits(storage).globalUnit).toBe('Imperial');
+  });
+
+  it('should calculate tunes', () => {
+    const tune = calculateTune({
+      game: 'fh5',
+      drivetrain: DriveType.awd,
+      springs: SpringsType.race,
+      piClass: horizon.FHPIClass.S1,
+      weight: 1500,
+      weightBalance: 50,
+      frontAero: 112,
+      tireWidth: { front: 300, rear: 300 },
+    }, {
+      ...defaultSpringTypeModifiersMap[SpringsType.race],
+      brakeOffset: 1,
+      driveOffset: 5,
+      arb: 100,
+      freq: { front: 2, rear: 2 },
+      unsprungCornerWeight: 0,
+      motionRatio: { front: 100, rear: 100 },
+      ...defaultDampingModifiers,
+      ...defaultFMModifiers,
+    });
+
+    expect(tune.weightBalance).toEqual({ front: 0.5, rear: 0.5 });
+    expect(tune.springs.front).toBeCloseTo(tune.springs.rear);
+    expect(tune.brakeBalance).toBe(51);
+    expect(tune.centerDiff).toBe(50);
+    expect(tune.rollCenterHeightOffset).toBeUndefined();
+  });
+
+  it('should export the calculator tools', () => {
+    const preset = getDefaultPreset('Stiff');
+    preset.modifiers.brakeOffset = 3;
+
+    expect(decodePreset(encodePreset(preset))).toEqual(preset);
+    expect(getCalculatorUnits('Imperial').weight).toBe(WeightUnit.lbs);
+    expect(calculateGearing({
+      redline: 8000,
+      peakPowerRpm: 7000,
+      tire: { width: 275, aspect: 35, rimDiameter: 19 },
+      topSpeed: 300,
+      speedUnit: SpeedUnit.kph,
+      gearCount: 6,
+      spacing: GearSpacing.geometric,
+    }).ratios).toHaveLength(6);
+    [findMotionRatio, proposeFHTune, sweepTune].forEach((tool) => expect(tool).toBeTypeOf('function'));
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * The framework-free core: setup types, encoding, unit conversion, generators and the calculator.
+ * Nothing exported here may depend on Vue, the router or browser globals, storage and URLs
+ * are passed in through the adapters.
+ */
+export * from '../lib/adapters';
+export * from '../lib/calculatorPresets';
+export * from '../lib/calculatorUnits';
+export * from '../lib/conversions';
+export * from '../lib/formGames';
+export * from '../lib/formLink';
+export { default as parseFormLink } from '../lib/formLink';
+export * from '../lib/gearing';
+export { default as calculateGearing } from '../lib/gearing';
+export * from '../lib/globalUnits';
+export * from '../lib/migrations';
+export * from '../lib/motionRatios';
+export { default as motionRatios } from '../lib/motionRatios';
+export * from '../lib/setupJson';
+export { default as createSetupJson } from '../lib/setupJson';
+export * from '../lib/tune-calculator';
+export { default as calculateTune } from '../lib/tune-calculator';
+export * from '../lib/tuneProposal';
+export { default as proposeFHTune } from '../lib/tuneProposal';
+export * from '../lib/tuneSweep';
+export { default as sweepTune } from '../lib/tuneSweep';
+export * from '../lib/types';
+export * from '../lib/unitsOfMeasure';
+export * from '../lib/useFormEncoder';
+export { default as createFormEncoder } from '../lib/useFormEncoder';
+
+export * as horizon from './horizon';
+export * as motorsport from './motorsport';
@@ -0,0 +1,9 @@
+export { default as fmBBCodeGenerator } from '../components/formatter/motorsport/fm-bbcode-generator';
+export { default as fmDiscordEmbedGenerator } from '../components/formatter/motorsport/fm-discord-embed-generator';
+export { default as fmDiscordGenerator } from '../components/formatter/motorsport/fm-discord-generator';
+export * from '../components/formatter/motorsport/fm-post-parser';
+export { default as parseFMPost } from '../components/formatter/motorsport/fm-post-parser';
+export { default as fmRedditGenerator } from '../components/formatter/motorsport/fm-reddit-generator';
+export { default as fmSetupJson } from '../components/formatter/motorsport/fm-setup-json';
+export { default as fmTuneCardGenerator } from '../components/formatter/motorsport/fm-tune-card-generator';
+export * from '../components/formatter/motorsport/FMSetup';
@@ -0,0 +1,45 @@
+/**
+ * Storage and URL access goes through adapters, so the core modules don't depend on the browser
+ * or the router.  The Vue app uses `browserStorage` and the router, scripts and tests can pass their own.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export interface FormUrlAdapter {
+  /**
+   * Called with the encoded form whenever it changes
+   */
+  replaceEncodedForm(encodedForm: string): void;
+}
+
+export const browserStorage: StorageAdapter = {
+  getItem: (key) => localStorage.getItem(key),
+  setItem: (key, value) => localStorage.setItem(key, value),
+};
+
+export function createMemoryStorage(initial: Record<string, string> = {}): StorageAdapter {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+/**
+ * Reads a JSON value, storing the default when nothing has been stored yet
+ */
+export function readStoredState<T>(storage: StorageAdapter, key: string, defaultState: T): T {
+  const stored = storage.getItem(key);
+  if (stored) return JSON.parse(stored);
+
+  writeStoredState(storage, key, defaultState);
+  return defaultState;
+}
+
+export function writeStoredState<T>(storage: StorageAdapter, key: string, state: T): void {
+  storage.setItem(key, JSON.stringify(state));
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+
+import { FHSetup, getEncoderOptions } from '../components/formatter/horizon/FHSetup';
+import { FMSetup, FMSetupV3, getEncoderOptions as getFMEncoderOptions, getFMFormFactory } from '../components/formatter/motorsport/FMSetup';
+
+import { deserializePackedForm, getPackedFormSchema, PACKED_FORM_PREFIX, serializePackedForm } from './bitPackedForm';
+import { decodeFormLink } from './formGames';
+import getTestForm from './testForm';
+import { Upgrade } from './types';
+import useFormEncoder, { FlattenedObject, GenericForm } from './useFormEncoder';
+
+function getFieldKeys(form: GenericForm, path: string[] = []): string[] {
+  return Object.entries(form).flatMap(([key, value]) => (
+    value && typeof value === 'object' && !Array.isArray(value) ? getFieldKeys(value, [...path, key]) : [[...path, key].join('.')]
+  )).sort();
+}
+
+describe('bitPackedForm', () => {
+  it('should round-trip every kind of value', () => {
+    const flattened: FlattenedObject = {
+      'a.empty': '',
+      'b.false': false,
+      'c.true': true,
+      'd.token': 'Race Anti-lag',
+      'e.numericString': '6.10',
+      'f.negative': '-2.5',
+      'g.number': 1500,
+      'h.float': 0.25,
+      'i.text': 'Ferrari 488 Pista – Ω',
+      'j.array': ['4.82', '3.90', ''],
+      'k.notCanonical': '05',
+      'l.negativeZero': '-0',
+    };
+    const keys = Object.keys(flattened).sort();
+
+    const encoded = serializePackedForm(flattened);
+
+    expect(encoded.startsWith(PACKED_FORM_PREFIX)).toBe(true);
+    expect(encoded).toMatch(/^~[A-Za-z0-9_-]+$/);
+    expect(deserializePackedForm(encoded, keys)).toEqual(flattened);
+  });
+
+  it('should ignore strings it did not create', () => {
+    expect(deserializePackedForm('NoIgTiA05T0fWBhAyk2BNApgZ1g', ['make'])).toBeUndefined();
+  });
+
+  it('should write the schema into the header', () => {
+    const encoded = serializePackedForm({ a: 'Stock' }, 'fm8/v2');
+
+    expect(getPackedFormSchema(encoded)).toBe('fm8/v2');
+    expect(getPackedFormSchema(serializePackedForm({ a: 'Stock' }))).toBeUndefined();
+    expect(getPackedFormSchema('NoIgTiA05T0fWBhAyk2BNApgZ1g')).toBeUndefined();
+  });
+
+  it('should throw when the value count does not match the fields', () => {
+    const encoded = serializePackedForm({ a: 'Stock' }, 'fm8/v2');
+
+    expect(() => deserializePackedForm(encoded, ['a', 'b'])).toThrow('Packed "fm8/v2" form has 1 values, expected 2');
+  });
+
+  it('should decode older form versions with the version they were encoded with', () => {
+    const form = getFMFormFactory('v2')() as FMSetup;
+    form.upgrades.engine.valves = Upgrade.race;
+    const encoded = useFormEncoder<FMSetup>(getFMEncoderOptions('v2')).encode(form);
+
+    expect(useFormEncoder<FMSetupV3>(getFMEncoderOptions('v3')).getSchema(encoded)).toBe('fm8/v2');
+    expect(() => useFormEncoder<FMSetupV3>(getFMEncoderOptions('v3')).decode(encoded)).toThrow();
+
+    const decoded = decodeFormLink('fm8', { version: 'v3', encodedForm: encoded }) as FMSetupV3;
+
+    expect(decoded.upgrades.engine.valves).toBe(Upgrade.race);
+    expect(decoded.upgrades.engine.rotorsAndCompression).toBe(Upgrade.na);
+  });
+
+  it('should round-trip a full form and be shorter than the compressed JSON', () => {
+    const packedEncoder = useFormEncoder<FHSetup>(getEncoderOptions('v1'));
+    const lzEncoder = useFormEncoder<FHSetup>({ ...getEncoderOptions('v1'), serialize: undefined, deserialize: undefined });
+    const form = getTestForm();
+
+    const packed = packedEncoder.encode(form);
+
+    expect(packedEncoder.decode(packed)).toEqual(lzEncoder.decode(lzEncoder.encode(form)));
+    expect(packed.length).toBeLessThan(lzEncoder.encode(form).length);
+  });
+
+  /**
+   * Packed links of a version only decode while its fields stay the same, a change here needs a new form version
+   */
+  it.each([
+    ['fh5/v1', getEncoderOptions('v1')],
+    ['fm8/v2', getFMEncoderOptions('v2')],
+    ['fm8/v3', getFMEncoderOptions('v3')],
+  ])('should keep the fields of %s', (_, options) => {
+    expect(getFieldKeys(options.getDefaultForm())).toMatchSnapshot();
+  });
+});
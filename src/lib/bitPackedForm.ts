@@ -0,0 +1,322 @@
+import { packedValueTable } from './mangle-lookup';
+import { FlattenedObject, FormEncoderOptions } from './useFormEncoder';
+
+/**
+ * Bit-packed form serializer.
+ *
+ * Values are written in the order of the alphabetized flattened keys, each one prefixed with
+ * a 3 bit tag describing how it was stored.  Known enum values are stored as an index into
+ * `packedValueTable` and numeric values as fixed-precision integers.  The bits are then
+ * written out 6 at a time using the URL-safe base64 alphabet.
+ *
+ * Like the legacy array format, values are positional, so the header carries the schema tag
+ * the form was encoded with and the number of values.  Links are decoded with the form version
+ * named by the schema and migrated from there, a value count that doesn't match that version's
+ * fields is an error rather than a guess.
+ */
+
+export const PACKED_FORM_PREFIX = '~';
+
+const FORMAT_VERSION = 2;
+const FORMAT_VERSION_BITS = 4;
+const TAG_BITS = 3;
+const TOKEN_BITS = 7;
+const DECIMALS_BITS = 3;
+const MAX_DECIMALS = 2 ** DECIMALS_BITS - 1;
+const VARINT_CHUNK_BITS = 5;
+
+const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+enum Tag {
+  empty = 0,
+  false = 1,
+  true = 2,
+  token = 3,
+  numericString = 4,
+  number = 5,
+  string = 6,
+  array = 7,
+}
+
+type PackedValue = string | number | boolean | PackedValue[];
+
+const tokenIndexes = new Map(packedValueTable.map((value, index) => [value, index]));
+
+interface BitWriter {
+  write(value: number, bitCount: number): void;
+  writeVarint(value: number): void;
+  toString(): string;
+}
+
+interface BitReader {
+  read(bitCount: number): number;
+  readVarint(): number;
+}
+
+interface PackedFormHeader {
+  schema: string;
+  count: number;
+}
+
+function toBits(value: number, bitCount: number): number[] {
+  const bits: number[] = [];
+  for (let bit = bitCount - 1; bit >= 0; bit--) {
+    bits.push(Math.floor(value / (2 ** bit)) % 2);
+  }
+  return bits;
+}
+
+function createBitWriter(): BitWriter {
+  const bits: number[] = [];
+
+  function write(value: number, bitCount: number) {
+    bits.push(...toBits(value, bitCount));
+  }
+
+  function writeVarint(value: number) {
+    let remaining = value;
+    do {
+      const chunk = remaining % (2 ** VARINT_CHUNK_BITS);
+      remaining = Math.floor(remaining / (2 ** VARINT_CHUNK_BITS));
+      write(remaining > 0 ? 1 : 0, 1);
+      write(chunk, VARINT_CHUNK_BITS);
+    } while (remaining > 0);
+  }
+
+  function toString(): string {
+    let text = '';
+    for (let index = 0; index < bits.length; index += 6) {
+      let value = 0;
+      for (let offset = 0; offset < 6; offset++) {
+        value = value * 2 + (bits[index + offset] ?? 0);
+      }
+      text += alphabet[value];
+    }
+    return text;
+  }
+
+  return {
+    write,
+    writeVarint,
+    toString,
+  };
+}
+
+function createBitReader(text: string): BitReader {
+  const bits = [...text].flatMap((char) => {
+    const value = alphabet.indexOf(char);
+    if (value < 0) throw new Error(`Invalid character in packed form: ${char}`);
+    return toBits(value, 6);
+  });
+
+  let position = 0;
+
+  function read(bitCount: number): number {
+    if (position + bitCount > bits.length) {
+      throw new Error('Unexpected end of packed form');
+    }
+    let value = 0;
+    for (let bit = 0; bit < bitCount; bit++) {
+      value = value * 2 + bits[position + bit];
+    }
+    position += bitCount;
+    return value;
+  }
+
+  function readVarint(): number {
+    let value = 0;
+    let multiplier = 1;
+    let hasMore = 1;
+    while (hasMore) {
+      hasMore = read(1);
+      value += read(VARINT_CHUNK_BITS) * multiplier;
+      multiplier *= 2 ** VARINT_CHUNK_BITS;
+    }
+    return value;
+  }
+
+  return {
+    read,
+    readVarint,
+  };
+}
+
+function zigzag(value: number): number {
+  return value < 0 ? -value * 2 - 1 : value * 2;
+}
+
+function unzigzag(value: number): number {
+  return value % 2 ? -(value + 1) / 2 : value / 2;
+}
+
+/**
+ * Returns the scaled integer and decimal count for a value, or undefined
+ * if the value can't be stored without changing it.
+ */
+function toFixedPrecision(value: string | number): { scaled: number, decimals: number } | undefined {
+  const text = value.toString();
+  const match = /^-?\d+(?:\.(\d+))?$/.exec(text);
+  if (!match) return undefined;
+
+  const decimals = typeof value === 'string' ? (match[1]?.length ?? 0) : getDecimalCount(value);
+  if (decimals > MAX_DECIMALS) return undefined;
+
+  const scaled = Math.round(parseFloat(text) * 10 ** decimals);
+  if (!Number.isSafeInteger(scaled)) return undefined;
+
+  const restored = fromFixedPrecision(scaled, decimals);
+  const matches = typeof value === 'string' ? restored === value : Number(restored) === value;
+  return matches ? { scaled, decimals } : undefined;
+}
+
+function fromFixedPrecision(scaled: number, decimals: number): string {
+  return (scaled / 10 ** decimals).toFixed(decimals);
+}
+
+function getDecimalCount(value: number): number {
+  for (let decimals = 0; decimals <= MAX_DECIMALS; decimals++) {
+    if (Number(value.toFixed(decimals)) === value) return decimals;
+  }
+  return MAX_DECIMALS + 1;
+}
+
+function writeValue(writer: BitWriter, value: PackedValue) {
+  if (Array.isArray(value)) {
+    writer.write(Tag.array, TAG_BITS);
+    writer.writeVarint(value.length);
+    value.forEach((item) => writeValue(writer, item));
+    return;
+  }
+
+  if (typeof value === 'boolean') {
+    writer.write(value ? Tag.true : Tag.false, TAG_BITS);
+    return;
+  }
+
+  if (value === '') {
+    writer.write(Tag.empty, TAG_BITS);
+    return;
+  }
+
+  if (typeof value === 'string' && tokenIndexes.has(value)) {
+    writer.write(Tag.token, TAG_BITS);
+    writer.write(tokenIndexes.get(value) as number, TOKEN_BITS);
+    return;
+  }
+
+  const fixed = toFixedPrecision(value);
+  if (fixed) {
+    writer.write(typeof value === 'number' ? Tag.number : Tag.numericString, TAG_BITS);
+    writer.write(fixed.decimals, DECIMALS_BITS);
+    writer.writeVarint(zigzag(fixed.scaled));
+    return;
+  }
+
+  writer.write(Tag.string, TAG_BITS);
+  writeText(writer, value.toString());
+}
+
+function readValue(reader: BitReader): PackedValue {
+  const tag: Tag = reader.read(TAG_BITS);
+
+  switch (tag) {
+    case Tag.empty:
+      return '';
+    case Tag.false:
+      return false;
+    case Tag.true:
+      return true;
+    case Tag.token: {
+      const index = reader.read(TOKEN_BITS);
+      if (index >= packedValueTable.length) throw new Error(`Unknown packed value index: ${index}`);
+      return packedValueTable[index];
+    }
+    case Tag.numericString:
+    case Tag.number: {
+      const decimals = reader.read(DECIMALS_BITS);
+      const value = fromFixedPrecision(unzigzag(reader.readVarint()), decimals);
+      return tag === Tag.number ? Number(value) : value;
+    }
+    case Tag.string:
+      return readText(reader);
+    case Tag.array: {
+      const length = reader.readVarint();
+      return Array.from({ length }, () => readValue(reader));
+    }
+    default:
+      throw new Error(`Unknown packed value tag: ${tag}`);
+  }
+}
+
+function writeText(writer: BitWriter, text: string) {
+  const bytes = new TextEncoder().encode(text);
+  writer.writeVarint(bytes.length);
+  bytes.forEach((byte) => writer.write(byte, 8));
+}
+
+function readText(reader: BitReader): string {
+  const bytes = new Uint8Array(reader.readVarint());
+  for (let index = 0; index < bytes.length; index++) {
+    bytes[index] = reader.read(8);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+function readHeader(reader: BitReader): PackedFormHeader {
+  const formatVersion = reader.read(FORMAT_VERSION_BITS);
+  if (formatVersion !== FORMAT_VERSION) {
+    throw new Error(`Unsupported packed form version: ${formatVersion}`);
+  }
+
+  return {
+    schema: readText(reader),
+    count: reader.readVarint(),
+  };
+}
+
+export function serializePackedForm(flattenedObj: FlattenedObject, schema: string = ''): string {
+  const keys = Object.keys(flattenedObj);
+  keys.sort();
+
+  const writer = createBitWriter();
+  writer.write(FORMAT_VERSION, FORMAT_VERSION_BITS);
+  writeText(writer, schema);
+  writer.writeVarint(keys.length);
+  keys.forEach((key) => writeValue(writer, flattenedObj[key] as PackedValue));
+
+  return `${PACKED_FORM_PREFIX}${writer.toString()}`;
+}
+
+export function deserializePackedForm(encoded: string, flattenedKeys: string[]): FlattenedObject | undefined {
+  if (!encoded.startsWith(PACKED_FORM_PREFIX)) return undefined;
+
+  const reader = createBitReader(encoded.slice(PACKED_FORM_PREFIX.length));
+  const { schema, count } = readHeader(reader);
+  if (count !== flattenedKeys.length) {
+    throw new Error(`Packed "${schema}" form has ${count} values, expected ${flattenedKeys.length}`);
+  }
+
+  const values = Array.from({ length: count }, () => readValue(reader));
+
+  const flattenedForm: FlattenedObject = {};
+  flattenedKeys.forEach((key, index) => {
+    flattenedForm[key] = values[index] as never;
+  });
+
+  return flattenedForm;
+}
+
+/**
+ * Returns the schema tag from the header, or undefined for strings it did not create
+ */
+export function getPackedFormSchema(encoded: string): string | undefined {
+  if (!encoded.startsWith(PACKED_FORM_PREFIX)) return undefined;
+
+  return readHeader(createBitReader(encoded.slice(PACKED_FORM_PREFIX.length))).schema || undefined;
+}
+
+export const packedFormSerializer: Pick<FormEncoderOptions, 'serialize' | 'deserialize' | 'readSchema'> = {
+  serialize: serializePackedForm,
+  deserialize: deserializePackedForm,
+  readSchema: getPackedFormSchema,
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+
+import { FHPIClass } from '../components/formatter/horizon/FHSetup';
+import { FMPIClass } from '../components/formatter/motorsport/FMSetup';
+
+import { applyTuneToFHForm, applyTuneToFMForm, getFHTuneInputs, getFMTuneInputs } from './calculatorForms';
+import getTestForm, { getFMTestForm } from './testForm';
+import { TuneCalculatorResult } from './tune-calculator';
+import { DriveType, ForceUnit, LengthUnit, PressureUnit, SpringRateUnit } from './types';
+
+function getResult(): TuneCalculatorResult {
+  return {
+    weightBalance: { front: 0.52, rear: 0.48 },
+    springs: { front: 100, rear: 90 },
+    springRates: { front: 1, rear: 1 },
+    springRatesInNewtons: { front: 9807, rear: 9807 },
+    naturalFrequency: { front: 3, rear: 3 },
+    motionRatio: { front: 1, rear: 1 },
+    unsprungCornerWeight: { front: 0, rear: 0 },
+    rebound: { front: 9.44, rear: 8.06 },
+    bump: { front: 5.66, rear: 4.84 },
+    arbs: { front: 30.25, rear: 25.5 },
+    brakeBalance: 49.4,
+    centerDiff: 48.4,
+    rideHeightPercent: { front: 10, rear: 15 },
+    rideHeight: { front: 10.6, rear: 11.4 },
+    aero: { front: 100, rear: 150 },
+    brakePressure: 100,
+    tirePressure: { front: 2.025, rear: 1.975 },
+    camber: { front: -1.575, rear: -0.95 },
+    toe: { front: 0, rear: 0 },
+    caster: 5.5,
+    diff: { rear: { accel: 60, decel: 20 } },
+    rollCenterHeightOffset: { front: 1.04, rear: 0.96 },
+    antiGeometryPercent: { front: 31.2, rear: 40 },
+  };
+}
+
+describe('calculatorForms', () => {
+  it('should apply the calculated tune to an FH form in its units', () => {
+    const form = getTestForm();
+    const applied = applyTuneToFHForm(form, getResult());
+
+    expect(applied.tune.springs).toEqual({
+      front: '560.0',
+      rear: '504.0',
+      units: SpringRateUnit.lbfin,
+      na: false,
+    });
+    expect(applied.tune.damping).toEqual({ front: '9.4', rear: '8.1', na: false });
+    expect(applied.tune.bump).toEqual({ front: '5.7', rear: '4.8', na: false });
+    expect(applied.tune.arb).toEqual({ front: '30.3', rear: '25.5', na: false });
+    expect(applied.tune.brake).toEqual({ bias: '49', pressure: '100', na: false });
+    expect(applied.tune.rideHeight).toEqual({ front: '10.6', rear: '11.4', units: LengthUnit.cm, na: false });
+    expect(applied.tune.aero).toEqual({ front: '100', rear: '150', units: ForceUnit.kgf, na: false });
+    expect(applied.tune.diff.center).toBe('48');
+    expect(applied.tune.diff.rear).toEqual({ accel: '60', decel: '20' });
+    expect(applied.tune.diff.front).toEqual(form.tune.diff.front);
+    expect(applied.tune.tires).toEqual({ front: '2.02', rear: '1.98', units: PressureUnit.bar });
+    expect(applied.tune.camber).toEqual({ front: '-1.6', rear: '-0.9' });
+    expect(applied.tune.caster).toBe('5.5');
+    // The form is copied
+    expect(form).toEqual(getTestForm());
+  });
+
+  it('should apply FM only settings to an FM form', () => {
+    const form = getFMTestForm();
+    form.tune.springs.units = SpringRateUnit.kgfmm;
+    form.tune.rollCenterHeightOffset.units = LengthUnit.in;
+    form.tune.tires.units = PressureUnit.psi;
+
+    const applied = applyTuneToFMForm(form, getResult());
+
+    expect(applied.tune.springs.front).toBe('100.0');
+    expect(applied.tune.rebound).toEqual({ front: '9.4', rear: '8.1', na: false });
+    expect(applied.tune.bump).toEqual({ front: '5.7', rear: '4.8', na: false });
+    expect(applied.tune.rollCenterHeightOffset).toEqual({
+      front: '0.4',
+      rear: '0.4',
+      units: LengthUnit.in,
+      na: false,
+    });
+    expect(applied.tune.antiGeometryPercent).toEqual({ front: '31', rear: '40', na: false });
+    expect(applied.tune.brake.pressure).toBe('100');
+    expect(applied.tune.tires).toEqual({ front: '29.4', rear: '28.6', units: PressureUnit.psi });
+    expect(applied.tune.alignment.toe).toEqual({ front: '0.0', rear: '0.0' });
+    // Only AWD cars have a center differential
+    expect(applied.tune.diff.center).toBe(getFMTestForm().tune.diff.center);
+  });
+
+  it('should seed the calculator inputs from the form stats', () => {
+    const form = getFMTestForm();
+
+    expect(getFMTuneInputs(form, 'Metric')).toEqual({
+      game: 'fm8',
+      drivetrain: DriveType.rwd,
+      piClass: FMPIClass.B,
+      weight: 1000,
+      weightBalance: 52,
+      tireWidth: { front: 225, rear: 245 },
+    });
+
+    form.stats.weight = '2205';
+    expect(getFMTuneInputs(form, 'Imperial').weight).toBe(1000);
+  });
+
+  it('should seed the vehicle when the car has motion ratios', () => {
+    const form = getFMTestForm();
+    form.make = 'Ferrari';
+    form.model = '488 GT3';
+
+    expect(getFMTuneInputs(form, 'Metric').vehicle).toBe('Ferrari 488 GT3');
+  });
+
+  it('should leave out inputs the form has no values for', () => {
+    const form = getTestForm();
+    form.stats.weight = '';
+
+    expect(getFHTuneInputs(form, 'Metric')).toEqual({
+      game: 'fh5',
+      drivetrain: DriveType.awd,
+      piClass: FHPIClass.A,
+    });
+  });
+});
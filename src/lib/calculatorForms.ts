@@ -0,0 +1,209 @@
+import { getDrivetrain } from '../components/formatter/horizon/fh-setup-document';
+import { FHPIClass, FHSetup } from '../components/formatter/horizon/FHSetup';
+import { FMPIClass, FMSetupV3 } from '../components/formatter/motorsport/FMSetup';
+
+import { convertUnit, getPressurePrecision } from './calculatorUnits';
+import { convert } from './conversions';
+import { FormGame } from './formLink';
+import { matchMotionRatio } from './motionRatios';
+import { AccelDecel, FrontRear, TuneCalculatorResult, TuneInputs } from './tune-calculator';
+import {
+  AccelDecelSettings,
+  DifferentialTuneSettings,
+  DriveType,
+  ForceUnit,
+  FrontAndRearSettings,
+  FrontAndRearWithUnits,
+  GlobalUnit,
+  LengthUnit,
+  PressureUnit,
+  SpringRateUnit,
+  UnitOfMeasure,
+  WeightUnit,
+} from './types';
+import { formatFloat } from './utils';
+
+/**
+ * The calculator works in kgf/mm, kg and cm
+ */
+function convertFrom<T extends UnitOfMeasure>(value: number, from: T, to: T, precision: number): string {
+  return formatFloat(convertUnit(value, from, to, precision), precision);
+}
+
+function setValues(setting: FrontAndRearSettings, value: FrontRear, precision = 1) {
+  setting.front = formatFloat(value.front, precision);
+  setting.rear = formatFloat(value.rear, precision);
+}
+
+function setFrontRear(setting: FrontAndRearSettings & { na?: boolean }, value: FrontRear, precision = 1) {
+  setValues(setting, value, precision);
+  setting.na = false;
+}
+
+function setSprings(setting: FrontAndRearSettings<string> & { units: SpringRateUnit, na?: boolean }, tune: TuneCalculatorResult) {
+  setting.front = convertFrom(tune.springs.front, SpringRateUnit.kgfmm, setting.units, 1);
+  setting.rear = convertFrom(tune.springs.rear, SpringRateUnit.kgfmm, setting.units, 1);
+  setting.na = false;
+}
+
+function setTires(setting: FrontAndRearSettings<string> & { units: PressureUnit }, tune: TuneCalculatorResult) {
+  const precision = getPressurePrecision(setting.units);
+  setting.front = convertFrom(tune.tirePressure.front, PressureUnit.bar, setting.units, precision);
+  setting.rear = convertFrom(tune.tirePressure.rear, PressureUnit.bar, setting.units, precision);
+}
+
+function setWithUnits<T extends UnitOfMeasure>(
+  setting: FrontAndRearWithUnits<T> & { na?: boolean },
+  value: FrontRear,
+  from: T,
+  precision = 1,
+) {
+  setting.front = convertFrom(value.front, from, setting.units, precision);
+  setting.rear = convertFrom(value.rear, from, setting.units, precision);
+  setting.na = false;
+}
+
+/**
+ * Cars without front aero get no aero settings
+ */
+function setAero(setting: FrontAndRearWithUnits<ForceUnit> & { na?: boolean }, tune: TuneCalculatorResult) {
+  if (!tune.aero.front) {
+    setting.na = true;
+    return;
+  }
+  setWithUnits(setting, tune.aero, ForceUnit.kgf, 0);
+}
+
+function setAlignment(alignment: { camber: FrontAndRearSettings, toe: FrontAndRearSettings, caster: string }, tune: TuneCalculatorResult) {
+  setValues(alignment.camber, tune.camber);
+  setValues(alignment.toe, tune.toe);
+  alignment.caster = formatFloat(tune.caster, 1);
+}
+
+function setAccelDecel(setting: AccelDecelSettings, value: AccelDecel | undefined) {
+  if (!value) return;
+  setting.accel = formatFloat(value.accel, 0);
+  setting.decel = formatFloat(value.decel, 0);
+}
+
+function setBrakeAndDiff(
+  tune: TuneCalculatorResult,
+  brake: { bias: string, pressure: string, na: boolean },
+  diff: DifferentialTuneSettings,
+  drivetrain: DriveType,
+) {
+  brake.bias = formatFloat(tune.brakeBalance, 0);
+  brake.pressure = formatFloat(tune.brakePressure, 0);
+  brake.na = false;
+  setAccelDecel(diff.front, tune.diff.front);
+  setAccelDecel(diff.rear, tune.diff.rear);
+  if (drivetrain === DriveType.awd) diff.center = formatFloat(tune.centerDiff, 0);
+  diff.na = false;
+}
+
+/**
+ * Returns a copy of the form with the calculated tune applied, converted into the form's units.
+ */
+export function applyTuneToFHForm(form: FHSetup, tune: TuneCalculatorResult): FHSetup {
+  const applied: FHSetup = JSON.parse(JSON.stringify(form));
+
+  setTires(applied.tune.tires, tune);
+  setAlignment(applied.tune, tune);
+  setSprings(applied.tune.springs, tune);
+  setWithUnits(applied.tune.rideHeight, tune.rideHeight, LengthUnit.cm);
+  setAero(applied.tune.aero, tune);
+  setFrontRear(applied.tune.damping, tune.rebound);
+  setFrontRear(applied.tune.bump, tune.bump);
+  setFrontRear(applied.tune.arb, tune.arbs);
+  setBrakeAndDiff(tune, applied.tune.brake, applied.tune.diff, getDrivetrain(applied.build));
+
+  return applied;
+}
+
+/**
+ * Returns a copy of the form with the calculated tune applied, converted into the form's units.
+ * Motorsport has separate rebound and bump settings, and the roll center and anti-geometry settings.
+ */
+export function applyTuneToFMForm(form: FMSetupV3, tune: TuneCalculatorResult): FMSetupV3 {
+  const applied: FMSetupV3 = JSON.parse(JSON.stringify(form));
+  const { rollCenterHeightOffset, antiGeometryPercent } = tune;
+
+  setTires(applied.tune.tires, tune);
+  setAlignment(applied.tune.alignment, tune);
+  applied.tune.alignment.na = false;
+  setSprings(applied.tune.springs, tune);
+  setWithUnits(applied.tune.rideHeight, tune.rideHeight, LengthUnit.cm);
+  setAero(applied.tune.aero, tune);
+  setFrontRear(applied.tune.rebound, tune.rebound);
+  setFrontRear(applied.tune.bump, tune.bump);
+  setFrontRear(applied.tune.arb, tune.arbs);
+  setBrakeAndDiff(tune, applied.tune.brake, applied.tune.diff, applied.upgrades.conversions.drivetrain);
+
+  if (rollCenterHeightOffset) setWithUnits(applied.tune.rollCenterHeightOffset, rollCenterHeightOffset, LengthUnit.cm);
+  if (antiGeometryPercent) setFrontRear(applied.tune.antiGeometryPercent, antiGeometryPercent, 0);
+
+  return applied;
+}
+
+function parseWeight(weight: string, globalUnit: GlobalUnit): number | undefined {
+  const value = parseFloat(weight);
+  if (Number.isNaN(value)) return undefined;
+  return globalUnit === 'Imperial' ? convert(value, WeightUnit.lbs, WeightUnit.kg, 0) : value;
+}
+
+function parseTireWidth(width: FrontAndRearSettings): FrontRear | undefined {
+  const front = parseFloat(width.front);
+  const rear = parseFloat(width.rear);
+  if (Number.isNaN(front) || Number.isNaN(rear)) return undefined;
+  return { front, rear };
+}
+
+/**
+ * Only includes the inputs the form has values for, blank and zero stats are left out.
+ * Stats are entered in the global units, so the weight is converted to kg.
+ */
+function getTuneInputs(
+  game: FormGame,
+  car: { make: string, model: string },
+  stats: { weight: string, balance: string, classification: FHPIClass | FMPIClass },
+  drivetrain: DriveType,
+  tireWidth: FrontAndRearSettings,
+  globalUnit: GlobalUnit,
+): Partial<TuneInputs> {
+  const inputs: Partial<TuneInputs> = { game, piClass: stats.classification };
+
+  // A stock drivetrain isn't known without the car's data
+  if (drivetrain !== DriveType.stock) inputs.drivetrain = drivetrain;
+
+  const weight = parseWeight(stats.weight, globalUnit);
+  if (weight) inputs.weight = weight;
+
+  const balance = parseFloat(stats.balance);
+  if (balance) inputs.weightBalance = balance;
+
+  const width = parseTireWidth(tireWidth);
+  if (width) inputs.tireWidth = width;
+
+  const motionRatio = matchMotionRatio(car.make, car.model);
+  if (motionRatio) inputs.vehicle = motionRatio.vehicle;
+
+  return inputs;
+}
+
+export function getFHTuneInputs(form: FHSetup, globalUnit: GlobalUnit): Partial<TuneInputs> {
+  return getTuneInputs('fh5', form, form.stats, getDrivetrain(form.build), form.build.tiresAndRims.width, globalUnit);
+}
+
+export function getFMTuneInputs(form: FMSetupV3, globalUnit: GlobalUnit): Partial<TuneInputs> {
+  return getTuneInputs('fm8', form, form.stats, form.upgrades.conversions.drivetrain, form.upgrades.tires.width, globalUnit);
+}
+
+export function getTuneInputsFromForm(game: FormGame, form: object, globalUnit: GlobalUnit): Partial<TuneInputs> {
+  if (game === 'fm8') return getFMTuneInputs(form as FMSetupV3, globalUnit);
+  return getFHTuneInputs(form as FHSetup, globalUnit);
+}
+
+export function applyTuneToForm(game: FormGame, form: object, tune: TuneCalculatorResult): object {
+  if (game === 'fm8') return applyTuneToFMForm(form as FMSetupV3, tune);
+  return applyTuneToFHForm(form as FHSetup, tune);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodePreset, encodePreset, exportPreset, getDefaultPreset, importPreset } from './calculatorPresets';
+import { SpringsType } from './tune-calculator';
+
+function getPreset() {
+  const preset = getDefaultPreset('Stiff');
+  preset.springTypeModifiers[SpringsType.race].general = 210;
+  preset.arbClassModifiers.fm8.A = 95;
+  preset.modifiers.brakeOffset = 3;
+  return preset;
+}
+
+describe('calculatorPresets', () => {
+  it('should share presets through an encoded string', () => {
+    const encoded = encodePreset(getPreset());
+
+    expect(decodePreset(encoded)).toEqual(getPreset());
+    // Only the changes are written, so an unnamed default preset encodes to nothing
+    expect(encodePreset(getDefaultPreset(''))).toBe('');
+  });
+
+  it('should round trip presets through JSON', () => {
+    expect(importPreset(exportPreset(getPreset()))).toEqual({ preset: getPreset(), errors: [] });
+  });
+
+  it('should keep the defaults for missing modifiers', () => {
+    const { preset } = importPreset(JSON.stringify({ preset: { name: 'Soft', modifiers: { driveOffset: '8' } } }));
+
+    expect(preset).toEqual({
+      ...getDefaultPreset('Soft'),
+      modifiers: { ...getDefaultPreset().modifiers, driveOffset: 8 },
+    });
+  });
+
+  it('should explain invalid presets', () => {
+    const text = JSON.stringify({ preset: { name: 'Broken', modifiers: { antiDive: 'lots' }, freqClassModifiers: 3 } });
+
+    expect(importPreset(text)).toEqual({
+      preset: null,
+      errors: ['freqClassModifiers must be an object', 'modifiers.antiDive must be numeric'],
+    });
+    expect(importPreset('{ "preset": {} }').errors).toEqual(['name is required']);
+    expect(importPreset('[]').errors).toEqual(['The file has no preset']);
+    expect(importPreset('{').errors).toEqual(['The file is not valid JSON']);
+  });
+});
@@ -0,0 +1,128 @@
+import { FormGame } from './formLink';
+import {
+  calculatorGames,
+  defaultDampingModifiers,
+  defaultFMModifiers,
+  defaultSpringTypeModifiersMap,
+  SpringTypeModifiersMap,
+  TuneModifiers,
+} from './tune-calculator';
+import useFormEncoder, { GenericForm } from './useFormEncoder';
+
+/**
+ * The modifiers that aren't kept per spring type or class
+ */
+export type PresetModifiers = Pick<
+  TuneModifiers,
+  'brakeOffset' | 'driveOffset' | 'reboundDamping' | 'bumpDamping' | 'rollCenterOffset' | 'antiDive' | 'antiSquat'
+>;
+
+export interface CalculatorPreset {
+  name: string;
+  springTypeModifiers: SpringTypeModifiersMap;
+  /**
+   * Keyed by game then class
+   */
+  arbClassModifiers: Record<FormGame, Record<string, number>>;
+  freqClassModifiers: Record<FormGame, Record<string, number>>;
+  modifiers: PresetModifiers;
+}
+
+export interface PresetImportResult {
+  preset: CalculatorPreset | null;
+  errors: string[];
+}
+
+export const PRESET_SCHEMA = 'preset/v1';
+
+export function getDefaultPreset(name = 'Default'): CalculatorPreset {
+  return JSON.parse(JSON.stringify({
+    name,
+    springTypeModifiers: defaultSpringTypeModifiersMap,
+    arbClassModifiers: {
+      fh5: calculatorGames.fh5.arbClassModifiers,
+      fm8: calculatorGames.fm8.arbClassModifiers,
+    },
+    freqClassModifiers: {
+      fh5: calculatorGames.fh5.frequencyClassModifiers,
+      fm8: calculatorGames.fm8.frequencyClassModifiers,
+    },
+    modifiers: {
+      brakeOffset: 1,
+      driveOffset: 5,
+      ...defaultDampingModifiers,
+      ...defaultFMModifiers,
+    },
+  }));
+}
+
+/**
+ * Presets are shared the same way as formatter forms, only the modifiers that differ from the
+ * defaults are written.
+ */
+const presetEncoder = useFormEncoder<CalculatorPreset>({
+  getDefaultForm: () => getDefaultPreset('') as unknown as GenericForm,
+  schema: PRESET_SCHEMA,
+  keyed: true,
+});
+
+export function encodePreset(preset: CalculatorPreset): string {
+  return presetEncoder.encode(preset);
+}
+
+export function decodePreset(encoded: string): CalculatorPreset {
+  return presetEncoder.decode(encoded);
+}
+
+/**
+ * Copies the imported values onto the defaults.  Missing modifiers keep their default, and
+ * anything the defaults don't have is ignored.
+ */
+function mergeInto(target: Record<string, unknown>, source: unknown, path: string[], errors: string[]) {
+  if (!source || typeof source !== 'object' || Array.isArray(source)) {
+    errors.push(path.length ? `${path.join('.')} must be an object` : 'The file has no preset');
+    return;
+  }
+
+  const values = source as Record<string, unknown>;
+  Object.keys(target).forEach((key) => {
+    if (!(key in values)) return;
+    const value = values[key];
+    const valuePath = [...path, key];
+
+    if (typeof target[key] === 'object') {
+      mergeInto(target[key] as Record<string, unknown>, value, valuePath, errors);
+    } else if (typeof target[key] === 'number') {
+      const number = typeof value === 'string' ? parseFloat(value) : value;
+      if (typeof number !== 'number' || Number.isNaN(number)) {
+        errors.push(`${valuePath.join('.')} must be numeric`);
+      } else {
+        target[key] = number;
+      }
+    } else if (typeof value !== 'string') {
+      errors.push(`${valuePath.join('.')} must be a string`);
+    } else {
+      target[key] = value;
+    }
+  });
+}
+
+export function exportPreset(preset: CalculatorPreset): string {
+  return `${JSON.stringify({ version: 'v1', preset }, null, 2)}\n`;
+}
+
+export function importPreset(text: string): PresetImportResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return { preset: null, errors: ['The file is not valid JSON'] };
+  }
+
+  const errors: string[] = [];
+  const preset = getDefaultPreset('');
+  mergeInto(preset as unknown as Record<string, unknown>, (json as { preset?: unknown })?.preset, [], errors);
+  if (!errors.length && !preset.name) errors.push('name is required');
+
+  return errors.length ? { preset: null, errors } : { preset, errors };
+}
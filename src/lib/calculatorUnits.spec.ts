@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import { calculatorUnits, convertUnit, getCalculatorUnits, getPressurePrecision } from './calculatorUnits';
+import { PressureUnit, SpringRateUnit, WeightUnit } from './types';
+
+describe('calculatorUnits', () => {
+  it('should use the calculator units for metric', () => {
+    expect(getCalculatorUnits('Metric')).toEqual(calculatorUnits);
+    expect(getCalculatorUnits('Imperial')).toMatchObject({
+      weight: WeightUnit.lbs,
+      springRate: SpringRateUnit.lbfin,
+      pressure: PressureUnit.psi,
+    });
+  });
+
+  it('should only convert between different units', () => {
+    expect(convertUnit(13.95, SpringRateUnit.kgfmm, SpringRateUnit.kgfmm, 1)).toBe(13.95);
+    expect(convertUnit(13.95, SpringRateUnit.kgfmm, SpringRateUnit.lbfin, 1)).toBe(78.1);
+    expect(convertUnit(3000, WeightUnit.lbs, WeightUnit.kg, 1)).toBe(1360.8);
+  });
+
+  it('should show bar with more precision than psi', () => {
+    expect(getPressurePrecision(PressureUnit.bar)).toBe(2);
+    expect(getPressurePrecision(PressureUnit.psi)).toBe(1);
+  });
+});
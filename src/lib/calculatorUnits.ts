@@ -0,0 +1,56 @@
+import { convert } from './conversions';
+import {
+  ForceUnit,
+  GlobalUnit,
+  LengthUnit,
+  PressureUnit,
+  SpringRateUnit,
+  UnitOfMeasure,
+  WeightUnit,
+} from './types';
+
+export interface CalculatorUnits {
+  weight: WeightUnit;
+  springRate: SpringRateUnit;
+  pressure: PressureUnit;
+  length: LengthUnit;
+  force: ForceUnit;
+}
+
+/**
+ * The tune calculator works in these units, they are only converted for display
+ */
+export const calculatorUnits: CalculatorUnits = {
+  weight: WeightUnit.kg,
+  springRate: SpringRateUnit.kgfmm,
+  pressure: PressureUnit.bar,
+  length: LengthUnit.cm,
+  force: ForceUnit.kgf,
+};
+
+export function getCalculatorUnits(globalUnit: GlobalUnit): CalculatorUnits {
+  if (globalUnit === 'Imperial') {
+    return {
+      weight: WeightUnit.lbs,
+      springRate: SpringRateUnit.lbfin,
+      pressure: PressureUnit.psi,
+      length: LengthUnit.in,
+      force: ForceUnit.lbf,
+    };
+  }
+  return { ...calculatorUnits };
+}
+
+/**
+ * `convert` always applies a multiplier, values that are already in the unit are returned as is
+ */
+export function convertUnit<T extends UnitOfMeasure>(value: number, from: T, to: T, precision: number): number {
+  return from === to ? value : convert(value, from, to, precision);
+}
+
+/**
+ * Bar needs more precision than psi for the same change in pressure
+ */
+export function getPressurePrecision(unit: PressureUnit) {
+  return unit === PressureUnit.bar ? 2 : 1;
+}
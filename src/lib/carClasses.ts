@@ -0,0 +1,59 @@
+import carClassesCsv from '../../data/CarClasses.csv?raw';
+
+export interface CarClass {
+  id: number;
+  name: string;
+  /**
+   * As a hex color, ie. `#f43156`
+   */
+  classColor: string;
+  maxPerformanceIndex: number;
+}
+
+/**
+ * Splits a line of the game's data exports, which quote the fields that contain commas
+ */
+function parseCsvLine(line: string): string[] {
+  return line
+    .split(',')
+    .reduce<string[]>((fields, part) => {
+      const last = fields[fields.length - 1];
+      if (last?.startsWith('"') && !last.endsWith('"')) {
+        fields[fields.length - 1] = `${last},${part}`;
+      } else {
+        fields.push(part);
+      }
+      return fields;
+    }, [])
+    .map((field) => field.replace(/^"|"$/g, ''));
+}
+
+/**
+ * The game stores colors as signed ARGB integers
+ */
+export function argbToHex(argb: number): string {
+  return `#${((argb + (2 ** 32)) % (2 ** 24)).toString(16).padStart(6, '0')}`;
+}
+
+function parseCarClasses(csv: string): CarClass[] {
+  const [header, ...lines] = csv.trim().split(/\r?\n/).map(parseCsvLine);
+  const column = (name: string) => header.indexOf(name);
+
+  return lines.map((fields) => ({
+    id: Number(fields[column('Id')]),
+    name: fields[column('DisplayName')],
+    classColor: argbToHex(Number(fields[column('ClassColor')])),
+    maxPerformanceIndex: Number(fields[column('MaxDisplayPerformanceIndex')]),
+  }));
+}
+
+export const carClasses = parseCarClasses(carClassesCsv);
+
+const byName = new Map(carClasses.map((carClass) => [carClass.name, carClass]));
+
+/**
+ * Undefined for the Forza Motorsport classes that Horizon does not have, ie. E, S and P
+ */
+export function getClassColor(name: string): string | undefined {
+  return byName.get(name)?.classColor;
+}
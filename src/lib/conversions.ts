@@ -102,6 +102,10 @@ export function getUnitsForGlobalUnit(globalUnit: GlobalUnit, useImperialHpForMe
       torque: TorqueUnit.lbfft,
       weight: WeightUnit.lbs,
       speed: SpeedUnit.mph,
+      pressure: PressureUnit.psi,
+      springRate: SpringRateUnit.lbfin,
+      length: LengthUnit.in,
+      force: ForceUnit.lbf,
     };
   }
   return {
@@ -109,5 +113,9 @@ export function getUnitsForGlobalUnit(globalUnit: GlobalUnit, useImperialHpForMe
     torque: TorqueUnit.nm,
     weight: WeightUnit.kg,
     speed: SpeedUnit.kph,
+    pressure: PressureUnit.bar,
+    springRate: SpringRateUnit.kgfmm,
+    length: LengthUnit.cm,
+    force: ForceUnit.kgf,
   };
 }
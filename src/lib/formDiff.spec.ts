@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import getFHDefaultFormV1, { fhTuneSections, fhUpgradeSections } from '../components/formatter/horizon/FHSetup';
+
+import diffForms from './formDiff';
+import { Upgrade } from './types';
+
+describe('diffForms', () => {
+  it('should group changed fields by section', () => {
+    const before = getFHDefaultFormV1();
+    const after = getFHDefaultFormV1();
+    after.tune.springs.front = '120';
+    after.tune.rideHeight.rear = '8';
+    after.tune.caster = '6.5';
+    after.build.engine.camshaft = Upgrade.race;
+
+    expect(diffForms(before, after, fhTuneSections)).toEqual([
+      {
+        title: 'Alignment',
+        changes: [{
+          path: 'tune.caster', label: 'Caster', before: '', after: '6.5',
+        }],
+      },
+      {
+        title: 'Springs',
+        changes: [
+          {
+            path: 'tune.rideHeight.rear', label: 'Ride Height Rear', before: '', after: '8', beforeUnits: 'cm', afterUnits: 'cm',
+          },
+          {
+            path: 'tune.springs.front', label: 'Springs Front', before: '', after: '120', beforeUnits: 'kgf/mm', afterUnits: 'kgf/mm',
+          },
+        ],
+      },
+    ]);
+
+    expect(diffForms(before, after, fhUpgradeSections)).toEqual([
+      {
+        title: 'Engine',
+        changes: [{
+          path: 'build.engine.camshaft', label: 'Camshaft', before: Upgrade.stock, after: Upgrade.race,
+        }],
+      },
+    ]);
+  });
+
+  it('should label gear ratios', () => {
+    const before = getFHDefaultFormV1();
+    const after = getFHDefaultFormV1();
+    after.tune.gears.ratios[0] = '3.50';
+    after.tune.gears.ratios[2] = '2.10';
+    after.tune.gears.na = true;
+
+    const [gearing] = diffForms(before, after, fhTuneSections);
+
+    expect(gearing.changes.map((change) => change.label)).toEqual(['N/A', 'Final Drive', '2nd Gear']);
+  });
+
+  it('should return nothing for identical forms', () => {
+    expect(diffForms(getFHDefaultFormV1(), getFHDefaultFormV1(), fhTuneSections)).toEqual([]);
+  });
+});
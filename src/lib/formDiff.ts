@@ -0,0 +1,99 @@
+import { capitalCase } from 'change-case';
+import { diff } from 'deep-object-diff';
+
+import { addSuffix } from './utils';
+
+/**
+ * A titled group of form fields, ie. "Springs" covers `tune.springs` and `tune.rideHeight`.
+ */
+export interface DiffSection {
+  title: string;
+  paths: string[];
+}
+
+export interface FieldChange {
+  path: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+  /**
+   * The units each value was entered in, for settings with units, ie. `tune.springs.front`
+   */
+  beforeUnits?: string;
+  afterUnits?: string;
+}
+
+export interface SectionChanges {
+  title: string;
+  changes: FieldChange[];
+}
+
+function flattenDiff(value: object, path: string[] = []): string[] {
+  return Object.entries(value).flatMap(([key, child]) => {
+    const childPath = [...path, key];
+    if (child && typeof child === 'object') return flattenDiff(child, childPath);
+    return [childPath.join('.')];
+  });
+}
+
+export function getFormValue(source: object, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], source);
+}
+
+function formatLabel(segments: string[]): string {
+  return segments
+    .map((segment, index) => {
+      if (segment === 'na') return 'N/A';
+      if (!/^\d+$/.test(segment)) return segment === 'ratios' ? '' : capitalCase(segment);
+
+      const gear = parseInt(segment, 10);
+      if (segments[index - 1] !== 'ratios') return `${gear}`;
+      return gear === 0 ? 'Final Drive' : `${gear}${addSuffix(gear)} Gear`;
+    })
+    .filter(Boolean)
+    .join(' ');
+}
+
+function getUnits(source: object, path: string): string | undefined {
+  const segments = path.split('.');
+  if (segments[segments.length - 1] === 'units') return undefined;
+  const units = getFormValue(source, [...segments.slice(0, -1), 'units'].join('.'));
+  return typeof units === 'string' ? units : undefined;
+}
+
+function isInPath(path: string, sectionPath: string) {
+  return path === sectionPath || path.startsWith(`${sectionPath}.`);
+}
+
+/**
+ * Compares two forms and returns the changed fields, grouped by section.
+ * Fields outside of every section are ignored, and sections without changes are omitted.
+ * Labels are relative to the section, prefixed by the section path when it covers more than one.
+ */
+export default function diffForms(before: object, after: object, sections: DiffSection[]): SectionChanges[] {
+  const changedPaths = flattenDiff(diff(before, after));
+  changedPaths.sort();
+
+  return sections
+    .map((section) => {
+      const changes = changedPaths.flatMap((path) => {
+        const sectionPath = section.paths.find((candidate) => isInPath(path, candidate));
+        if (!sectionPath) return [];
+
+        const sectionSegments = sectionPath.split('.');
+        const labelSegments = path.split('.').slice(section.paths.length > 1 ? sectionSegments.length - 1 : sectionSegments.length);
+
+        return [{
+          path,
+          label: formatLabel(labelSegments) || section.title,
+          before: getFormValue(before, path),
+          after: getFormValue(after, path),
+          beforeUnits: getUnits(before, path),
+          afterUnits: getUnits(after, path),
+        }];
+      });
+
+      return { title: section.title, changes };
+    })
+    .filter((section) => section.changes.length > 0);
+}
@@ -0,0 +1,59 @@
+import { fhMigrations, getEncoderOptions as getFHEncoderOptions } from '../components/formatter/horizon/FHSetup';
+import { fmMigrations, getEncoderOptions as getFMEncoderOptions } from '../components/formatter/motorsport/FMSetup';
+
+import { formatFormLink, FormGame, FormLink } from './formLink';
+import { MigrationRegistry } from './migrations';
+import useFormEncoder, { FormEncoderOptions } from './useFormEncoder';
+
+export interface FormGameConfig {
+  title: string;
+  useLegacyDeserialization: boolean;
+  getEncoderOptions(version: string): FormEncoderOptions;
+  migrations: MigrationRegistry<object>;
+}
+
+export const formGames: Record<FormGame, FormGameConfig> = {
+  fh5: {
+    title: 'Forza Horizon 5',
+    useLegacyDeserialization: true,
+    getEncoderOptions: getFHEncoderOptions,
+    migrations: fhMigrations as MigrationRegistry<object>,
+  },
+  fm8: {
+    title: 'Forza Motorsport',
+    useLegacyDeserialization: false,
+    getEncoderOptions: getFMEncoderOptions,
+    migrations: fmMigrations as MigrationRegistry<object>,
+  },
+};
+
+/**
+ * Decodes a link or encoded form, upgraded to the game's latest form version.
+ * Bare encoded forms are copied from the formatter, so they're assumed to be the latest version.
+ */
+export function decodeFormLink(game: FormGame, link: FormLink): object {
+  const config = formGames[game];
+  const version = link.version ?? config.migrations.latestVersion;
+  const options = config.getEncoderOptions(version);
+
+  // Versioned payloads know their own version, legacy payloads are assumed to match the link
+  const schema = useFormEncoder(options).getSchema(link.encodedForm) ?? options.schema ?? version;
+  const sourceVersion = schema.split('/').pop() as string;
+
+  const form = useFormEncoder<object>(config.getEncoderOptions(sourceVersion)).decode(
+    link.encodedForm,
+    config.useLegacyDeserialization,
+  );
+
+  return config.migrations.migrate(form, sourceVersion);
+}
+
+/**
+ * Encodes a form with the game's latest form version
+ */
+export function encodeFormLink(game: FormGame, form: object): string {
+  const config = formGames[game];
+  const latestVersion = config.migrations.latestVersion;
+  const encoded = useFormEncoder<object>(config.getEncoderOptions(latestVersion)).encode(form);
+  return formatFormLink(game, latestVersion, encoded);
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+
+import parseFormLink, { formatFormLink } from './formLink';
+
+describe('formLink', () => {
+  it('should parse the game, version and form of a formatter link', () => {
+    expect(parseFormLink(' https://optn.club/formatter/forza/motorsport/v3/~abc?x=1 ')).toEqual({
+      game: 'fm8',
+      version: 'v3',
+      encodedForm: '~abc',
+    });
+    expect(parseFormLink(formatFormLink('fh5', 'v1', 'N4Ig/a+b='))).toEqual({ game: 'fh5', version: 'v1', encodedForm: 'N4Ig/a+b=' });
+  });
+
+  it('should leave the print suffix out of the form', () => {
+    expect(parseFormLink('https://optn.club/formatter/forza/horizon5/v1/~abc/print')).toEqual({
+      game: 'fh5',
+      version: 'v1',
+      encodedForm: '~abc',
+    });
+  });
+
+  it('should parse legacy links and bare forms', () => {
+    expect(parseFormLink('https://optn.club/formatter/N4Ig')).toEqual({ game: 'fh5', version: 'v1', encodedForm: 'N4Ig' });
+    expect(parseFormLink('~abc')).toEqual({ encodedForm: '~abc' });
+  });
+});
@@ -0,0 +1,48 @@
+export type FormGame = 'fh5' | 'fm8';
+
+export interface FormLink {
+  game?: FormGame;
+  version?: string;
+  encodedForm: string;
+}
+
+const gamePaths: Record<string, FormGame> = {
+  horizon5: 'fh5',
+  motorsport: 'fm8',
+};
+
+/**
+ * Parses an optn.club formatter link, or a bare encoded form.
+ * Bare forms, and links from before games were added to the path, don't include the game or version.
+ */
+export default function parseFormLink(input: string): FormLink {
+  const text = input.trim();
+
+  const match = /\/formatter\/forza\/(\w+)\/([^/?#]+)(?:\/([^/?#]*))?/.exec(text);
+  if (match) {
+    const game = gamePaths[match[1]];
+    if (!game) throw new Error(`Unknown game in link: ${match[1]}`);
+
+    return {
+      game,
+      version: match[2],
+      encodedForm: decodeURIComponent(match[3] ?? ''),
+    };
+  }
+
+  const legacyMatch = /\/formatter\/([^/?#]+)/.exec(text);
+  if (legacyMatch) {
+    return {
+      game: 'fh5',
+      version: 'v1',
+      encodedForm: decodeURIComponent(legacyMatch[1]),
+    };
+  }
+
+  return { encodedForm: text };
+}
+
+export function formatFormLink(game: FormGame, version: string, encodedForm: string): string {
+  const gamePath = Object.keys(gamePaths).find((key) => gamePaths[key] === game);
+  return `https://optn.club/formatter/forza/${gamePath}/${version}/${encodeURIComponent(encodedForm)}`;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import calculateGearing, { applyGearing, GearingInputs, gearingRanges, GearSpacing, tireDiameter } from './gearing';
+import getTestForm from './testForm';
+import { SpeedUnit } from './types';
+
+function getInputs(inputs: Partial<GearingInputs> = {}): GearingInputs {
+  return {
+    redline: 8000,
+    peakPowerRpm: 7000,
+    tire: { width: 275, aspect: 35, rimDiameter: 19 },
+    topSpeed: 300,
+    speedUnit: SpeedUnit.kph,
+    gearCount: 6,
+    spacing: GearSpacing.geometric,
+    ...inputs,
+  };
+}
+
+describe('gearing', () => {
+  it('should calculate the tire diameter', () => {
+    expect(tireDiameter({ width: 275, aspect: 35, rimDiameter: 19 })).toBeCloseTo(675.1);
+  });
+
+  it('should reach the top speed at the redline in top gear', () => {
+    const gearing = calculateGearing(getInputs());
+
+    expect(gearing.ratios).toHaveLength(6);
+    expect(gearing.speeds[5]).toBeCloseTo(300);
+    expect(gearing.finalDrive).toBeCloseTo(4.1);
+  });
+
+  it('should drop to the bottom of the power band on each upshift', () => {
+    const { ratios } = calculateGearing(getInputs());
+
+    // 8000rpm down to 6000rpm
+    ratios.slice(1).forEach((ratio, index) => {
+      expect(ratios[index] / ratio).toBeCloseTo(8000 / 6000);
+    });
+  });
+
+  it('should shrink the steps towards top gear with progressive spacing', () => {
+    const { ratios, speeds } = calculateGearing(getInputs({ spacing: GearSpacing.progressive }));
+
+    expect(ratios[0] / ratios[1]).toBeGreaterThan(ratios[4] / ratios[5]);
+    expect(speeds[5]).toBeCloseTo(300);
+  });
+
+  it('should use smaller steps and keep the ratios in range for more gears', () => {
+    const gearing = calculateGearing(getInputs({ gearCount: 10, topSpeed: 186, speedUnit: SpeedUnit.mph }));
+
+    expect(gearing.ratios[0] / gearing.ratios[9]).toBeCloseTo(4.5);
+    expect(gearing.speeds[9]).toBeCloseTo(186, 0);
+    gearing.ratios.forEach((ratio) => {
+      expect(ratio).toBeGreaterThanOrEqual(gearingRanges.gear.min);
+      expect(ratio).toBeLessThanOrEqual(gearingRanges.gear.max);
+    });
+  });
+
+  it('should fill the form ratios', () => {
+    const { tune } = getTestForm();
+    applyGearing(tune.gears, calculateGearing(getInputs({ gearCount: 4 })));
+
+    expect(tune.gears.ratios).toEqual(['3.08', '2.61', '1.96', '1.47', '1.10', '', '', '', '', '', '']);
+    expect(tune.gears.na).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+import { convert } from './conversions';
+import { GearTuneSettings, SpeedUnit } from './types';
+import { formatFloat } from './utils';
+
+export enum GearSpacing {
+  geometric = 'Geometric',
+  progressive = 'Progressive',
+}
+
+export interface TireSize {
+  /**
+   * In mm, ie. Data_Car.csv RearTireWidthMM
+   */
+  width: number;
+  /**
+   * Sidewall height as a percent of the width, ie. RearTireAspect
+   */
+  aspect: number;
+  /**
+   * In inches, ie. RearWheelDiameterIN
+   */
+  rimDiameter: number;
+}
+
+export interface GearingInputs {
+  redline: number;
+  peakPowerRpm: number;
+  tire: TireSize;
+  topSpeed: number;
+  speedUnit: SpeedUnit;
+  gearCount: number;
+  spacing: GearSpacing;
+}
+
+export interface GearingResult {
+  finalDrive: number;
+  /**
+   * First gear first
+   */
+  ratios: number[];
+  /**
+   * Speed at the redline in each gear, in the inputs' speed unit
+   */
+  speeds: number[];
+}
+
+/**
+ * The ranges of the in-game sliders
+ */
+export const gearingRanges = {
+  finalDrive: { min: 2.2, max: 6.1 },
+  gear: { min: 0.48, max: 6 },
+};
+
+/**
+ * How much the steps shrink towards the top gear with progressive spacing
+ */
+const progressiveExponent = 1.3;
+
+/**
+ * First gear over top gear.  Gearboxes with more gears use smaller steps rather than a shorter first gear.
+ */
+const maxSpread = 4.5;
+
+function clamp(value: number, range: { min: number, max: number }) {
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+/**
+ * Overall diameter in mm
+ */
+export function tireDiameter(tire: TireSize) {
+  return tire.rimDiameter * 25.4 + 2 * tire.width * (tire.aspect / 100);
+}
+
+function toMetresPerSecond(speed: number, unit: SpeedUnit) {
+  const kph = unit === SpeedUnit.mph ? convert(speed, SpeedUnit.mph, SpeedUnit.kph, 3) : speed;
+  return kph / 3.6;
+}
+
+function fromMetresPerSecond(speed: number, unit: SpeedUnit) {
+  const kph = speed * 3.6;
+  return unit === SpeedUnit.mph ? convert(kph, SpeedUnit.kph, SpeedUnit.mph, 3) : kph;
+}
+
+/**
+ * The top gear reaches the top speed at the redline.  Each upshift at the redline drops the
+ * engine to the bottom of the power band, as far below peak power as the redline is above it,
+ * which sets the largest step between gears.  The final drive centers the ratios in the slider range.
+ */
+export default function calculateGearing(inputs: GearingInputs): GearingResult {
+  const { redline, peakPowerRpm, gearCount } = inputs;
+  const circumference = (tireDiameter(inputs.tire) / 1000) * Math.PI;
+  const topWheelRpm = (toMetresPerSecond(inputs.topSpeed, inputs.speedUnit) / circumference) * 60;
+  const topOverall = redline / topWheelRpm;
+
+  const bandBottom = Math.max(peakPowerRpm - (redline - peakPowerRpm), 1);
+  const spread = Math.min((redline / bandBottom) ** (gearCount - 1), maxSpread);
+
+  const overall = Array.from({ length: gearCount }, (_, index) => {
+    const position = gearCount > 1 ? (gearCount - 1 - index) / (gearCount - 1) : 0;
+    const exponent = inputs.spacing === GearSpacing.progressive ? progressiveExponent : 1;
+    return topOverall * spread ** (position ** exponent);
+  });
+
+  const finalDrive = clamp(
+    Math.sqrt((overall[0] * topOverall) / (gearingRanges.gear.max * gearingRanges.gear.min)),
+    gearingRanges.finalDrive,
+  );
+  const ratios = overall.map((ratio) => clamp(ratio / finalDrive, gearingRanges.gear));
+
+  const speeds = ratios.map((ratio) => {
+    const wheelRpm = redline / (ratio * finalDrive);
+    return fromMetresPerSecond((wheelRpm / 60) * circumference, inputs.speedUnit);
+  });
+
+  return { finalDrive, ratios, speeds };
+}
+
+/**
+ * Fills the form's ratios, the final drive is the first ratio.  Gears past the gear count are cleared.
+ */
+export function applyGearing(gears: GearTuneSettings, gearing: GearingResult) {
+  gears.ratios = gears.ratios.map((_, index) => {
+    if (index === 0) return formatFloat(gearing.finalDrive, 2);
+    return index <= gearing.ratios.length ? formatFloat(gearing.ratios[index - 1], 2) : '';
+  });
+  gears.na = false;
+}
@@ -0,0 +1,27 @@
+import { readStoredState, StorageAdapter, writeStoredState } from './adapters';
+import { GlobalUnit } from './types';
+
+export const GLOBAL_UNITS_KEY = 'USE_GLOBAL_UNITS';
+
+export interface GlobalUnits {
+  globalUnit: GlobalUnit;
+  convertOnUnitChange: boolean;
+}
+
+export function getDefaultGlobalUnits(): GlobalUnits {
+  return {
+    globalUnit: 'Metric',
+    convertOnUnitChange: true,
+  };
+}
+
+/**
+ * Reads the unit settings the formatter shares between forms, ie. from `browserStorage` or a script's own storage
+ */
+export function getGlobalUnits(storage: StorageAdapter): GlobalUnits {
+  return { ...getDefaultGlobalUnits(), ...readStoredState(storage, GLOBAL_UNITS_KEY, getDefaultGlobalUnits()) };
+}
+
+export function setGlobalUnits(storage: StorageAdapter, globalUnits: GlobalUnits): void {
+  writeStoredState(storage, GLOBAL_UNITS_KEY, globalUnits);
+}
@@ -85,6 +85,30 @@ export const mangleKeyMap: Record<string, string> = {
   zeroToHundred: 'cf',
   zeroToSixty: 'cg',
   profileSize: 'ch',
+  toe: 'ci',
+  arb: 'cj',
+  motorAndBattery: 'ck',
+  restrictorPlate: 'cl',
+  year: 'cm',
+  carPoints: 'cn',
+  upgrades: 'co',
+  fuelAndAir: 'cp',
+  airFilter: 'cq',
+  singleTurbo: 'cr',
+  oilAndCooling: 'cs',
+  rotorsAndCompression: 'ct',
+  ballast: 'cu',
+  wheels: 'cv',
+  style: 'cw',
+  size: 'cx',
+  alignment: 'cy',
+  steeringAngle: 'cz',
+  rebound: 'da',
+  rollCenterHeightOffset: 'db',
+  antiGeometryPercent: 'dc',
+  steeringWheel: 'dd',
+  ffbScale: 'de',
+  steeringLockRange: 'df',
 };
 
 export const mangleValueMap: Record<string, string> = {
@@ -112,3 +136,81 @@ export const mangleValueMap: Record<string, string> = {
   'Stock Restrictor Plate': 'srp',
   'N/A': 'na',
 };
+
+/**
+ * Values the bit-packed serializer stores as an index instead of a string.
+ * Entries must only ever be appended, as the index is part of every packed link.
+ */
+export const packedValueTable: string[] = [
+  // Upgrades
+  'N/A',
+  'Stock',
+  'Street',
+  'Sport',
+  'Race',
+  'Race Anti-lag',
+  'Rally',
+  'Drift',
+  'Offroad',
+  'Stock Restrictor Plate',
+  'No Restrictor Plate',
+  'Remove Restrictor',
+  'Race Six Speed',
+  'Race Seven Speed',
+  'Race Eight Speed',
+  'Race Nine Speed',
+  'Race Ten Speed',
+  'Drift Four Speed',
+  // Tires and rims
+  'Semi-Slick',
+  'Slick',
+  'Snow',
+  'Drag',
+  'Vintage',
+  'Vintage Whitewall',
+  'Vintage Race',
+  'Multi Piece',
+  'Specialized',
+  'First',
+  'Second',
+  'Third',
+  // Conversions and ballast
+  'FWD',
+  'RWD',
+  'AWD',
+  'None',
+  'Extra Light',
+  'Light',
+  'Medium',
+  'Heavy',
+  'Extra Heavy',
+  // Units
+  'bar',
+  'psi',
+  'kgf',
+  'lbf',
+  'kg',
+  'lbs',
+  'kgf/mm',
+  'lbf/in',
+  'cm',
+  'in',
+  'kph',
+  'mph',
+  'kW',
+  'hp',
+  'Nm',
+  'lbf·ft',
+  // PI classes
+  'E',
+  'D',
+  'C',
+  'B',
+  'A',
+  'S',
+  'S1',
+  'S2',
+  'R',
+  'P',
+  'X',
+];
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+
+import getFHDefaultFormV1, { fhMigrations } from '../components/formatter/horizon/FHSetup';
+import { fmMigrations, FMSetup, getFMDefaultForm, getFMFormFactory, migrateFMV2ToV3 } from '../components/formatter/motorsport/FMSetup';
+
+import createMigrationRegistry from './migrations';
+import { Upgrade } from './types';
+
+describe('createMigrationRegistry', () => {
+  const registry = createMigrationRegistry<{ a: number; b?: number; c?: number }>('v3', [
+    { from: 'v1', to: 'v2', migrate: (form: { a: number }) => ({ ...form, b: 2 }) },
+    { from: 'v2', to: 'v3', migrate: (form: { a: number; b: number }) => ({ ...form, c: 3 }) },
+  ]);
+
+  it('should chain migrations up to the latest version', () => {
+    expect(registry.migrate({ a: 1 }, 'v1')).toEqual({ a: 1, b: 2, c: 3 });
+    expect(registry.getPath('v1').map((step) => step.to)).toEqual(['v2', 'v3']);
+  });
+
+  it('should stop at the requested version', () => {
+    expect(registry.migrate({ a: 1 }, 'v1', 'v2')).toEqual({ a: 1, b: 2 });
+  });
+
+  it('should return the form untouched when already at the latest version', () => {
+    const form = { a: 1, b: 2, c: 3 };
+    expect(registry.migrate(form, 'v3')).toBe(form);
+  });
+
+  it('should throw when no path exists', () => {
+    expect(() => registry.migrate({ a: 1 }, 'v0')).toThrowError('No migration path');
+    expect(() => registry.migrate({ a: 1 }, 'v3', 'v1')).toThrowError('No migration path');
+  });
+
+  it('should reject duplicate steps', () => {
+    expect(() => createMigrationRegistry('v2', [
+      { from: 'v1', to: 'v2', migrate: (form: object) => form },
+      { from: 'v1', to: 'v2', migrate: (form: object) => form },
+    ])).toThrowError('Duplicate migration');
+  });
+});
+
+describe('fhMigrations', () => {
+  it('should treat v1 as the latest version', () => {
+    const form = getFHDefaultFormV1();
+    expect(fhMigrations.latestVersion).toBe('v1');
+    expect(fhMigrations.migrate(form, 'v1')).toBe(form);
+  });
+});
+
+describe('fmMigrations', () => {
+  it('should upgrade a blank v2 form to a blank v3 form', () => {
+    expect(fmMigrations.migrate(getFMDefaultForm('v2'), 'v2')).toEqual(getFMDefaultForm('v3'));
+  });
+
+  describe('v2 -> v3', () => {
+    it('should add the rotors and compression upgrade without changing other values', () => {
+      const form = getFMFormFactory('v2')() as FMSetup;
+      form.make = 'Foo';
+      form.upgrades.engine.camshaft = Upgrade.race;
+      form.tune.springs.front = '120';
+
+      const migrated = migrateFMV2ToV3(form);
+
+      expect(migrated.make).toBe('Foo');
+      expect(migrated.upgrades.engine.camshaft).toBe(Upgrade.race);
+      expect(migrated.upgrades.engine.rotorsAndCompression).toBe(Upgrade.na);
+      expect(migrated.tune.springs.front).toBe('120');
+    });
+
+    it('should not mutate the original form', () => {
+      const form = getFMFormFactory('v2')() as FMSetup;
+      migrateFMV2ToV3(form);
+      expect(form.upgrades.engine).not.toHaveProperty('rotorsAndCompression');
+    });
+  });
+});
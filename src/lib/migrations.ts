@@ -0,0 +1,65 @@
+/**
+ * A single upgrade step between two form versions, ie. FM `v2` -> `v3`.
+ * `migrate` must not mutate the form it is given.
+ */
+export interface FormMigration<From = never, To = never> {
+  from: string;
+  to: string;
+  migrate(form: From): To;
+}
+
+export interface MigrationRegistry<T> {
+  latestVersion: string;
+  versions: string[];
+  getPath(from: string, to?: string): FormMigration[];
+  migrate(form: unknown, from: string, to?: string): T;
+}
+
+/**
+ * Creates a registry of migrations for one game.  Versions are upgraded by following
+ * the chain of declared steps, starting at `from`, until the target version is reached.
+ */
+export default function createMigrationRegistry<T>(
+  latestVersion: string,
+  migrations: FormMigration<never, unknown>[],
+): MigrationRegistry<T> {
+  const stepsByVersion = new Map<string, FormMigration>();
+
+  migrations.forEach((step) => {
+    if (stepsByVersion.has(step.from)) {
+      throw new Error(`Duplicate migration from version "${step.from}"`);
+    }
+    stepsByVersion.set(step.from, step as FormMigration);
+  });
+
+  const versions = [...new Set(migrations.flatMap((step) => [step.from, step.to]).concat(latestVersion))];
+
+  function getPath(from: string, to: string = latestVersion): FormMigration[] {
+    const path: FormMigration[] = [];
+    const visited = new Set<string>();
+    let current = from;
+
+    while (current !== to) {
+      const step = stepsByVersion.get(current);
+      if (!step || visited.has(current)) {
+        throw new Error(`No migration path from version "${from}" to "${to}"`);
+      }
+      visited.add(current);
+      path.push(step);
+      current = step.to;
+    }
+
+    return path;
+  }
+
+  function migrate(form: unknown, from: string, to: string = latestVersion): T {
+    return getPath(from, to).reduce((migrated, step) => step.migrate(migrated as never), form) as T;
+  }
+
+  return {
+    latestVersion,
+    versions,
+    getPath,
+    migrate,
+  };
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+
+import { findMotionRatio, matchMotionRatio } from './motionRatios';
+
+describe('motionRatios', () => {
+  it('should find vehicles by name', () => {
+    expect(findMotionRatio('Ferrari 488 GT3')?.frontMRSpring).toBe(0.63);
+    expect(findMotionRatio('Ferrari 488')).toBeUndefined();
+    expect(findMotionRatio(undefined)).toBeUndefined();
+  });
+
+  it('should match formatter cars loosely', () => {
+    expect(matchMotionRatio('Acura', 'NSX')?.vehicle).toBe('Acura NSX');
+    expect(matchMotionRatio('Acura', 'NSX GT3')?.vehicle).toBe('Acura NSX GT3');
+    expect(matchMotionRatio('Ferrari', '2016 Ferrari 488 GT3')?.vehicle).toBe('Ferrari 488 GT3');
+    expect(matchMotionRatio('Mazda', 'MX-5 Miata')).toBeUndefined();
+    expect(matchMotionRatio('', '')).toBeUndefined();
+  });
+});
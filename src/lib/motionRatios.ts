@@ -0,0 +1,58 @@
+import importedMotionRatios from './motion-ratios.json';
+
+export interface MotionRatio {
+  /**
+   * Not every vehicle has its make and model split out
+   */
+  make?: string;
+  model?: string;
+  vehicle: string;
+  /**
+   * In kg
+   */
+  weight: number;
+  rearPctBase: number;
+  /**
+   * Unsprung corner weights in kg
+   */
+  frontUnsprung: number;
+  rearUnsprung: number;
+  frontMRSpring: number;
+  frontMRDamper: number;
+  frontMRHeave: number;
+  rearMRSpring: number;
+  rearMRDamperRoll: number;
+  rearMRSpringHeave: number;
+}
+
+const motionRatios: MotionRatio[] = importedMotionRatios;
+
+const byVehicle: Map<string, MotionRatio> = new Map();
+motionRatios.forEach((motionRatio) => {
+  byVehicle.set(motionRatio.vehicle, motionRatio);
+});
+
+export function findMotionRatio(vehicle: string | undefined): MotionRatio | undefined {
+  return vehicle ? byVehicle.get(vehicle) : undefined;
+}
+
+/**
+ * Finds the motion ratios for a formatter car.  Models are matched loosely, as the names don't
+ * always line up, ie. "2019 Ferrari 488 Pista".  An exact model wins, then the longest one.
+ */
+export function matchMotionRatio(make: string, model: string): MotionRatio | undefined {
+  if (!make || !model) return undefined;
+
+  const exact = byVehicle.get(`${make} ${model}`);
+  if (exact) return exact;
+
+  const matches = motionRatios
+    .filter((mr) => mr.make === make && mr.model && (model.includes(mr.model) || mr.model.includes(model)))
+    .sort((a, b) => (b.model?.length ?? 0) - (a.model?.length ?? 0));
+
+  return matches.find((mr) => mr.model === model) ??
+    matches.find((mr) => mr.model && model.includes(mr.model)) ??
+    matches[0];
+}
+
+export default motionRatios;
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import fhSetupJson from '../components/formatter/horizon/fh-setup-json';
+import { FHSetup } from '../components/formatter/horizon/FHSetup';
+import fmSetupJson from '../components/formatter/motorsport/fm-setup-json';
+
+import getTestForm, { getFMTestForm } from './testForm';
+
+/**
+ * The exported file, with any value allowed in place of the setup's fields so invalid files can be written
+ */
+type EditableJson<T> = { [K in keyof T]: T[K] extends object ? EditableJson<T[K]> : unknown } & Record<string, unknown>;
+
+interface ExportedSetup {
+  $schema: string;
+  game: string;
+  version: string;
+  setup: EditableJson<FHSetup>;
+}
+
+function exportWith(edit: (json: ExportedSetup) => void): string {
+  const json = JSON.parse(fhSetupJson.exportSetup(getTestForm()));
+  edit(json);
+  return JSON.stringify(json);
+}
+
+describe('setupJson', () => {
+  it('should round trip setups through JSON', () => {
+    expect(fhSetupJson.importSetup(fhSetupJson.exportSetup(getTestForm()))).toEqual({ setup: getTestForm(), errors: [] });
+    expect(fmSetupJson.importSetup(fmSetupJson.exportSetup(getFMTestForm()))).toEqual({ setup: getFMTestForm(), errors: [] });
+  });
+
+  it('should reference the published schema', () => {
+    const json = JSON.parse(fhSetupJson.exportSetup(getTestForm()));
+
+    expect(json.$schema).toBe('https://optn.club/schemas/fh5-setup.schema.json');
+    expect(json.game).toBe('fh5');
+    expect(json.version).toBe('v1');
+  });
+
+  it('should accept numbers for numeric fields', () => {
+    const text = exportWith((json) => {
+      json.setup.tune.springs.front = 120.5;
+    });
+
+    expect(fhSetupJson.importSetup(text).setup?.tune.springs.front).toBe('120.5');
+  });
+
+  it('should return field level errors', () => {
+    const text = exportWith((json) => {
+      json.setup.tune.springs.front = 'soft';
+      json.setup.tune.springs.units = 'N/m';
+      delete json.setup.tune.rideHeight.rear;
+      json.setup.tune.extra = true;
+    });
+
+    expect(fhSetupJson.importSetup(text)).toEqual({
+      setup: null,
+      errors: [
+        'tune.springs.front must be numeric',
+        'tune.springs.units must be one of: kgf/mm, lbf/in',
+        'tune.rideHeight.rear is required',
+        'tune.extra is not a known field',
+      ],
+    });
+  });
+
+  it('should reject other games and versions', () => {
+    const fmText = fmSetupJson.exportSetup(getFMTestForm());
+    const oldVersion = exportWith((json) => {
+      json.version = 'v0';
+    });
+
+    expect(fhSetupJson.importSetup(fmText).errors).toContain('game must be one of: fh5');
+    expect(fhSetupJson.importSetup(oldVersion).errors).toEqual(['version must be one of: v1']);
+    expect(fhSetupJson.importSetup('{ "game": ').errors).toEqual(['The file is not valid JSON']);
+  });
+});
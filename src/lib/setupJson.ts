@@ -0,0 +1,176 @@
+/**
+ * The subset of JSON Schema used by the generated setup schemas, see `scripts/generate-setup-schemas.ts`.
+ */
+export interface JsonSchema {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  type?: string | string[];
+  enum?: string[];
+  pattern?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+}
+
+export interface SetupJsonOptions {
+  game: string;
+  version: string;
+  schema: JsonSchema;
+}
+
+export interface SetupImportResult<T> {
+  setup: T | null;
+  errors: string[];
+}
+
+export interface SetupJson<T> {
+  schemaUrl: string;
+  fileName(setup: T): string;
+  exportSetup(setup: T): string;
+  importSetup(text: string): SetupImportResult<T>;
+}
+
+const SCHEMA_BASE_URL = 'https://optn.club/schemas';
+
+function getJsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Paths are relative to the setup, ie. `tune.springs.front` rather than `setup.tune.springs.front`
+ */
+function formatPath(path: string[]): string {
+  const relative = path[0] === 'setup' && path.length > 1 ? path.slice(1) : path;
+  return relative.join('.') || 'The file';
+}
+
+function resolveSchema(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace('#/$defs/', '');
+  const resolved = root.$defs?.[name];
+  if (!resolved) throw new Error(`Unknown schema reference ${schema.$ref}`);
+  return resolveSchema(resolved, root);
+}
+
+/**
+ * Validates a value against the schema and returns a copy where numbers are converted to strings
+ * wherever the schema also allows strings, since the forms store every number as entered.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  path: string[] = [],
+): { value: unknown, errors: string[] } {
+  const resolved = resolveSchema(schema, root);
+  const label = formatPath(path);
+  const types = ([] as string[]).concat(resolved.type ?? []);
+  const valueType = getJsonType(value);
+
+  if (types.length && !types.includes(valueType)) {
+    if (resolved.title === 'numeric') return { value, errors: [`${label} must be numeric`] };
+    const article = /^[aeiou]/.test(types[0]) ? 'an' : 'a';
+    return { value, errors: [`${label} must be ${article} ${types[0]}`] };
+  }
+
+  if (valueType === 'number' && types.includes('string')) {
+    return validateSchema(`${value}`, schema, root, path);
+  }
+
+  if (resolved.pattern && typeof value === 'string' && !new RegExp(resolved.pattern).test(value)) {
+    if (resolved.title === 'numeric') return { value, errors: [`${label} must be numeric`] };
+    return { value, errors: [`${label} must match ${resolved.pattern}`] };
+  }
+
+  if (resolved.enum && !resolved.enum.includes(value as string)) {
+    return { value, errors: [`${label} must be one of: ${resolved.enum.join(', ')}`] };
+  }
+
+  if (valueType === 'array' && resolved.items) {
+    const items = resolved.items;
+    const results = (value as unknown[]).map((item, index) => validateSchema(item, items, root, [...path, `${index}`]));
+    return {
+      value: results.map((result) => result.value),
+      errors: results.flatMap((result) => result.errors),
+    };
+  }
+
+  if (valueType === 'object' && resolved.properties) {
+    const properties = resolved.properties;
+    const object = value as Record<string, unknown>;
+    const copy: Record<string, unknown> = {};
+    const errors: string[] = [];
+
+    (resolved.required ?? []).forEach((key) => {
+      if (!(key in object)) errors.push(`${formatPath([...path, key])} is required`);
+    });
+
+    Object.entries(object).forEach(([key, child]) => {
+      if (!properties[key]) {
+        if (resolved.additionalProperties === false) errors.push(`${formatPath([...path, key])} is not a known field`);
+        return;
+      }
+      const result = validateSchema(child, properties[key], root, [...path, key]);
+      copy[key] = result.value;
+      errors.push(...result.errors);
+    });
+
+    return { value: copy, errors };
+  }
+
+  return { value, errors: [] };
+}
+
+function slugify(text: string) {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Plain JSON import/export for one game's setups.  Exported files are wrapped in an envelope
+ * with the game and form version, and reference the published schema so editors can validate them.
+ */
+export default function createSetupJson<T extends { year?: string, make: string, model: string }>(
+  options: SetupJsonOptions,
+): SetupJson<T> {
+  const { game, version, schema } = options;
+  const schemaUrl = `${SCHEMA_BASE_URL}/${game}-setup.schema.json`;
+
+  function fileName(setup: T): string {
+    const name = slugify([setup.year, setup.make, setup.model].filter(Boolean).join(' '));
+    return `${name || 'setup'}.${game}.json`;
+  }
+
+  function exportSetup(setup: T): string {
+    return `${JSON.stringify({
+      $schema: schemaUrl,
+      game,
+      version,
+      setup,
+    }, null, 2)}\n`;
+  }
+
+  function importSetup(text: string): SetupImportResult<T> {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      return { setup: null, errors: ['The file is not valid JSON'] };
+    }
+
+    const { value, errors } = validateSchema(json, schema);
+    if (errors.length) return { setup: null, errors };
+
+    return { setup: (value as { setup: T }).setup, errors: [] };
+  }
+
+  return {
+    schemaUrl,
+    fileName,
+    exportSetup,
+    importSetup,
+  };
+}
@@ -1,10 +1,15 @@
 import { FHPIClass, FHSetup } from '../components/formatter/horizon/FHSetup';
+import { FMPIClass, FMSetupV3 } from '../components/formatter/motorsport/FMSetup';
 
 import {
+  BallastType,
   DriveType,
+  FMFullUpgrade,
+  FMTireCompound,
   ForceUnit,
   FullUpgrade,
   LengthUnit,
+  LimitedTransmissionUpgrade,
   LimitedUpgrade,
   PressureUnit,
   RestrictorUpgrade,
@@ -171,3 +176,186 @@ export default function getTestForm(): FHSetup {
     },
   };
 }
+
+export function getFMTestForm(): FMSetupV3 {
+  return {
+    year: '1994',
+    make: 'Mazda',
+    model: 'MX-5 Miata',
+    stats: {
+      pi: 598,
+      classification: FMPIClass.B,
+      carPoints: '16000',
+      hp: '180',
+      torque: '210',
+      weight: '1000',
+      balance: '52',
+      topSpeed: '210',
+      zeroToSixty: '5.8',
+      zeroToHundred: '13.1',
+      shareCode: '',
+    },
+    upgrades: {
+      fuelAndAir: {
+        fuelSystem: Upgrade.race,
+        carburator: Upgrade.stock,
+        ignition: Upgrade.sport,
+        exhaust: Upgrade.race,
+        airFilter: Upgrade.street,
+        intakeManifold: Upgrade.stock,
+        restrictorPlate: '',
+        centrifugalSupercharger: Upgrade.stock,
+        singleTurbo: Upgrade.race,
+        twinTurbo: Upgrade.stock,
+        supercharger: Upgrade.stock,
+        intercooler: Upgrade.race,
+      },
+      engine: {
+        camshaft: Upgrade.race,
+        valves: Upgrade.sport,
+        displacement: Upgrade.stock,
+        pistons: Upgrade.race,
+        flywheel: Upgrade.race,
+        oilAndCooling: Upgrade.street,
+        motorAndBattery: Upgrade.na,
+        rotorsAndCompression: Upgrade.na,
+      },
+      platformAndHandling: {
+        brakes: Upgrade.race,
+        springs: FMFullUpgrade.race,
+        frontArb: Upgrade.race,
+        rearArb: Upgrade.race,
+        weightReduction: Upgrade.sport,
+        chassisReinforcement: Upgrade.street,
+        ballast: BallastType.light,
+      },
+      tires: {
+        width: {
+          front: '225',
+          rear: '245',
+        },
+        compound: FMTireCompound.sport,
+        trackWidth: {
+          front: TrackWidthType.first,
+          rear: TrackWidthType.first,
+        },
+      },
+      wheels: {
+        style: 'Enkei RPF1',
+        size: {
+          front: '17',
+          rear: '17',
+        },
+      },
+      drivetrain: {
+        clutch: Upgrade.race,
+        transmission: LimitedTransmissionUpgrade.race,
+        differential: FMFullUpgrade.race,
+        driveline: Upgrade.sport,
+      },
+      aeroAndAppearance: {
+        frontBumper: 'Forza',
+        rearBumper: '',
+        rearWing: 'Forza',
+        sideSkirts: '',
+        hood: '',
+      },
+      conversions: {
+        aspiration: 'Single Turbo',
+        bodyKit: '',
+        engine: '',
+        drivetrain: DriveType.rwd,
+      },
+    },
+    tune: {
+      tires: {
+        front: '1.9',
+        rear: '2',
+        units: PressureUnit.bar,
+      },
+      gears: {
+        ratios: ['4.10', '3.14', '1.89', '1.33', '1.00', '0.81', '', '', '', '', ''],
+        na: false,
+      },
+      alignment: {
+        camber: {
+          front: '-1.5',
+          rear: '-1',
+        },
+        toe: {
+          front: '0.1',
+          rear: '-0.2',
+        },
+        caster: '6.2',
+        steeringAngle: '45',
+        na: false,
+      },
+      arb: {
+        front: '22.5',
+        rear: '18',
+        na: false,
+      },
+      springs: {
+        front: '400',
+        rear: '350',
+        units: SpringRateUnit.lbfin,
+        na: false,
+      },
+      rideHeight: {
+        front: '11.5',
+        rear: '12',
+        units: LengthUnit.cm,
+        na: false,
+      },
+      rebound: {
+        front: '9.5',
+        rear: '8',
+        na: false,
+      },
+      bump: {
+        front: '5.5',
+        rear: '4.8',
+        na: false,
+      },
+      rollCenterHeightOffset: {
+        front: '2',
+        rear: '1.5',
+        units: LengthUnit.cm,
+        na: false,
+      },
+      antiGeometryPercent: {
+        front: '20',
+        rear: '35',
+        na: false,
+      },
+      aero: {
+        front: '60',
+        rear: '110',
+        units: ForceUnit.kgf,
+        na: false,
+      },
+      brake: {
+        na: false,
+        bias: '48',
+        pressure: '105',
+      },
+      diff: {
+        front: {
+          accel: '',
+          decel: '',
+        },
+        rear: {
+          accel: '65',
+          decel: '20',
+        },
+        center: '',
+        na: false,
+      },
+      steeringWheel: {
+        na: false,
+        ffbScale: '110',
+        steeringLockRange: '540',
+      },
+    },
+  };
+}
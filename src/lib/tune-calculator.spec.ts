@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+
+import { FMPIClass } from '../components/formatter/motorsport/FMSetup';
+
+import calculateTune, {
+  calculatorGames,
+  DampingModel,
+  defaultDampingModifiers,
+  defaultFMModifiers,
+  defaultSpringTypeModifiersMap,
+  naturalFrequency,
+  springRateForFrequency,
+  SpringsType,
+  TuneInputs,
+  TuneModifiers,
+} from './tune-calculator';
+import { DriveType } from './types';
+
+function getInputs(inputs: Partial<TuneInputs> = {}): TuneInputs {
+  return {
+    game: 'fm8',
+    drivetrain: DriveType.rwd,
+    springs: SpringsType.race,
+    piClass: FMPIClass.A,
+    weight: 1400,
+    weightBalance: 55,
+    frontAero: 0,
+    tireWidth: { front: 255, rear: 285 },
+    ...inputs,
+  };
+}
+
+function getModifiers(piClass: FMPIClass = FMPIClass.A): TuneModifiers {
+  const frequency = calculatorGames.fm8.frequencyClassModifiers[piClass];
+  return {
+    ...defaultSpringTypeModifiersMap[SpringsType.race],
+    brakeOffset: 1,
+    driveOffset: 5,
+    arb: calculatorGames.fm8.arbClassModifiers[piClass],
+    freq: { front: frequency, rear: frequency },
+    unsprungCornerWeight: 0,
+    motionRatio: { front: 100, rear: 100 },
+    ...defaultDampingModifiers,
+    ...defaultFMModifiers,
+  };
+}
+
+describe('tune-calculator', () => {
+  it('should have modifiers for every FM class', () => {
+    calculatorGames.fm8.piClasses.forEach((piClass) => {
+      expect(calculatorGames.fm8.arbClassModifiers[piClass]).toBeGreaterThan(0);
+      expect(calculatorGames.fm8.frequencyClassModifiers[piClass]).toBeGreaterThan(0);
+    });
+    expect(calculatorGames.fm8.springTypes).not.toContain(SpringsType.offroad);
+  });
+
+  it('should convert between spring rates and natural frequencies', () => {
+    const springRate = springRateForFrequency(3, 300, 0.8);
+
+    expect(springRate).toBeCloseTo(166_549, -1);
+    expect(naturalFrequency(springRate, 300, 0.8)).toBeCloseTo(3);
+  });
+
+  it('should calculate spring rates for the target frequency', () => {
+    const tune = calculateTune(getInputs(), getModifiers());
+
+    // 385kg sprung front corner at 3Hz, in N/m
+    expect(tune.springRatesInNewtons.front).toBeCloseTo(136_793, -1);
+    // The games' kgf/mm are a tenth of a real one
+    expect(tune.springRates.front).toBeCloseTo(139.5, 1);
+    expect(tune.motionRatio).toEqual({ front: 1, rear: 1 });
+  });
+
+  it('should keep the spring rates positive for light cars', () => {
+    const modifiers = { ...getModifiers(), unsprungCornerWeight: 200 };
+
+    [0, 300].forEach((weight) => {
+      const tune = calculateTune(getInputs({ weight }), modifiers);
+
+      [tune.springs, tune.rebound, tune.bump, tune.arbs].forEach((values) => {
+        expect(values.front).toBeGreaterThan(0);
+        expect(values.rear).toBeGreaterThan(0);
+      });
+    });
+  });
+
+  it('should use the vehicle motion ratios and unsprung weight', () => {
+    const tune = calculateTune(getInputs({ vehicle: 'Ferrari 488 GT3' }), getModifiers());
+
+    expect(tune.motionRatio).toEqual({ front: 0.63, rear: 0.706 });
+    expect(tune.unsprungCornerWeight).toEqual({ front: 45, rear: 55 });
+    // (385kg - 45kg) at 3Hz through a 0.63 motion ratio
+    expect(tune.springRatesInNewtons.front).toBeCloseTo(springRateForFrequency(3, 340, 0.63));
+    expect(tune.springRates.front).toBeCloseTo(310.4, 1);
+  });
+
+  it('should suggest springs from the spring rates', () => {
+    const tune = calculateTune(getInputs(), getModifiers());
+
+    expect(tune.springs.front).toBeCloseTo(tune.springRates.front);
+    // The rear wheels are driven
+    expect(tune.springs.rear).toBeCloseTo(tune.springRates.rear * 0.95);
+    expect(tune.naturalFrequency.front).toBeCloseTo(3);
+    expect(tune.naturalFrequency.rear).toBeCloseTo(3 * Math.sqrt(0.95));
+  });
+
+  it('should soften the springs by the spring type', () => {
+    const modifiers = { ...getModifiers(), ...defaultSpringTypeModifiersMap[SpringsType.rally] };
+    const tune = calculateTune(getInputs({ springs: SpringsType.rally }), modifiers);
+
+    expect(tune.springs.front).toBeCloseTo(tune.springRates.front * 0.5);
+    expect(tune.naturalFrequency.front).toBeCloseTo(3 * Math.sqrt(0.5));
+  });
+
+  it('should scale the dampers from the springs by default', () => {
+    const tune = calculateTune(getInputs(), getModifiers());
+
+    expect(tune.bump.front).toBeCloseTo(tune.rebound.front * 0.6);
+    expect(tune.criticalDamping).toBeUndefined();
+  });
+
+  it('should map damping ratios onto the slider range', () => {
+    const tune = calculateTune(getInputs({ dampingModel: DampingModel.critical }), getModifiers());
+    const stiffness = Math.sqrt(tune.springs.front / (1400 * 0.203971));
+
+    // 385kg sprung front corner
+    expect(tune.criticalDamping?.front).toBeCloseTo(2 * Math.sqrt(tune.springs.front * 980.665 * 385));
+    expect(tune.rebound.front).toBeCloseTo(1 + 19 * 0.65 * stiffness);
+    expect(tune.bump.front).toBeCloseTo(1 + 19 * 0.45 * stiffness);
+    expect(tune.bump.rear).toBeLessThan(tune.rebound.rear);
+  });
+
+  it('should keep critical damping within the slider range', () => {
+    const modifiers = { ...getModifiers(), reboundDamping: 500, bumpDamping: 0 };
+    const tune = calculateTune(getInputs({ dampingModel: DampingModel.critical }), modifiers);
+
+    expect(tune.rebound).toEqual({ front: 20, rear: 20 });
+    expect(tune.bump).toEqual({ front: 1, rear: 1 });
+  });
+
+  it('should give each discipline its own spring modifiers', () => {
+    expect(defaultSpringTypeModifiersMap[SpringsType.drift]).not.toEqual(defaultSpringTypeModifiersMap[SpringsType.race]);
+    expect(defaultSpringTypeModifiersMap[SpringsType.rally]).not.toEqual(defaultSpringTypeModifiersMap[SpringsType.offroad]);
+  });
+
+  it('should lock the rear and add front camber for drift', () => {
+    const tune = calculateTune(getInputs({ springs: SpringsType.drift, weightBalance: 50 }), getModifiers());
+
+    expect(tune.diff).toEqual({ rear: { accel: 100, decel: 100 } });
+    expect(tune.tirePressure.rear).toBeLessThan(tune.tirePressure.front);
+    expect(tune.camber.front).toBe(-5);
+    expect(tune.caster).toBe(7);
+  });
+
+  it('should adjust the surface settings for the weight balance and drivetrain', () => {
+    const race = calculateTune(getInputs({ drivetrain: DriveType.awd }), getModifiers());
+    const drift = calculateTune(getInputs({ drivetrain: DriveType.awd, springs: SpringsType.drift }), getModifiers());
+
+    // 55% front
+    expect(race.tirePressure.front).toBeCloseTo(2.025);
+    expect(race.tirePressure.rear).toBeCloseTo(1.975);
+    expect(race.camber.front).toBeCloseTo(-1.575);
+    expect(Object.keys(race.diff)).toEqual(['front', 'rear']);
+    expect(race.centerDiff).toBeCloseTo(48.9, 1);
+    expect(drift.centerDiff).toBe(85);
+  });
+
+  it('should calculate FM only settings', () => {
+    const tune = calculateTune(getInputs(), getModifiers());
+
+    expect(tune.rollCenterHeightOffset?.front).toBeCloseTo(1.1);
+    expect(tune.rollCenterHeightOffset?.rear).toBeCloseTo(0.9);
+    expect(tune.antiGeometryPercent?.front).toBeCloseTo(33);
+    expect(tune.antiGeometryPercent?.rear).toBe(40);
+  });
+
+  it('should reduce anti-squat when the rear wheels are not driven', () => {
+    const tune = calculateTune(getInputs({ drivetrain: DriveType.fwd }), getModifiers());
+
+    expect(tune.antiGeometryPercent?.rear).toBe(20);
+  });
+
+  it('should leave out FM only settings for Horizon', () => {
+    const tune = calculateTune(getInputs({ game: 'fh5' }), getModifiers());
+
+    expect(tune.rollCenterHeightOffset).toBeUndefined();
+    expect(tune.antiGeometryPercent).toBeUndefined();
+  });
+});
@@ -1,5 +1,9 @@
 import { FHPIClass } from '../components/formatter/horizon/FHSetup';
+import { FMPIClass } from '../components/formatter/motorsport/FMSetup';
 
+import { multipliers } from './conversions';
+import { FormGame } from './formLink';
+import { findMotionRatio } from './motionRatios';
 import { DriveType } from './types';
 
 export interface FrontRear {
@@ -14,14 +18,29 @@ export enum SpringsType {
   offroad = 'Offroad',
 }
 
+export enum DampingModel {
+  linear = 'Linear',
+  critical = 'Critical Damping',
+}
+
 export interface TuneInputs {
+  game: FormGame;
   drivetrain: DriveType;
   springs: SpringsType;
-  piClass: FHPIClass;
+  piClass: FHPIClass | FMPIClass;
   weight: number;
   weightBalance: number;
   frontAero: number;
   tireWidth: FrontRear;
+  /**
+   * A vehicle from motion-ratios.json, its motion ratios and unsprung weights are used
+   * instead of the modifiers
+   */
+  vehicle?: string;
+  /**
+   * Defaults to linear, which scales the dampers from the springs
+   */
+  dampingModel?: DampingModel;
 }
 
 export interface SpringTypeModifiers {
@@ -39,21 +58,86 @@ export interface GeneralModifiers {
   motionRatio: FrontRear;
 }
 
+/**
+ * Forza Motorsport only settings, ignored for Horizon
+ */
+export interface FMModifiers {
+  /**
+   * Roll center height offset in cm, split between the axles by weight
+   */
+  rollCenterOffset: number;
+  antiDive: number;
+  antiSquat: number;
+}
+
+/**
+ * Target damping ratios for the critical damping model, as a percent of critical damping
+ */
+export interface DampingModifiers {
+  reboundDamping: number;
+  bumpDamping: number;
+}
+
 export interface TuneCalculatorResult {
+  weightBalance: FrontRear;
   springs: FrontRear;
+  /**
+   * Spring rates for the target frequencies in the games' kgf/mm and in N/m
+   */
   springRates: FrontRear;
   springRatesInNewtons: FrontRear;
+  /**
+   * The natural frequencies of the suggested springs, in Hz
+   */
+  naturalFrequency: FrontRear;
+  motionRatio: FrontRear;
+  unsprungCornerWeight: FrontRear;
   rebound: FrontRear;
   bump: FrontRear;
+  /**
+   * Critical damping of the suggested springs in N·s/m, only calculated for the critical damping model
+   */
+  criticalDamping?: FrontRear;
   arbs: FrontRear;
   brakeBalance: number;
   centerDiff: number;
+  /**
+   * Percent of the car's ride height range, 0 is the lowest
+   */
+  rideHeightPercent: FrontRear;
+  /**
+   * In cm, the percent of a typical ride height range
+   */
+  rideHeight: FrontRear;
+  /**
+   * In bar
+   */
+  tirePressure: FrontRear;
+  camber: FrontRear;
+  toe: FrontRear;
+  caster: number;
+  /**
+   * Only the driven axles
+   */
+  diff: { front?: AccelDecel, rear?: AccelDecel };
+  /**
+   * Downforce in kgf, none when the car has no front aero
+   */
+  aero: FrontRear;
+  brakePressure: number;
+  /**
+   * Only calculated for Forza Motorsport
+   */
+  rollCenterHeightOffset?: FrontRear;
+  antiGeometryPercent?: FrontRear;
 }
 
-export type TuneModifiers = SpringTypeModifiers & GeneralModifiers;
+export type TuneModifiers = SpringTypeModifiers & GeneralModifiers & DampingModifiers & FMModifiers;
 
 export type ClassModifiersMap = Record<FHPIClass, number>;
 
+export type FMClassModifiersMap = Record<FMPIClass, number>;
+
 export const defaultARBClassModifiersMap: ClassModifiersMap = {
   [FHPIClass.D]: 50,
   [FHPIClass.C]: 60,
@@ -74,28 +158,192 @@ export const defaultFrequencyClassModifiersMap: ClassModifiersMap = {
   [FHPIClass.X]: 3.3,
 };
 
+export const defaultFMARBClassModifiersMap: FMClassModifiersMap = {
+  [FMPIClass.E]: 40,
+  [FMPIClass.D]: 50,
+  [FMPIClass.C]: 60,
+  [FMPIClass.B]: 70,
+  [FMPIClass.A]: 80,
+  [FMPIClass.S]: 90,
+  [FMPIClass.R]: 100,
+  [FMPIClass.P]: 100,
+  [FMPIClass.X]: 100,
+};
+
+export const defaultFMFrequencyClassModifiersMap: FMClassModifiersMap = {
+  [FMPIClass.E]: 2.6,
+  [FMPIClass.D]: 2.8,
+  [FMPIClass.C]: 2.9,
+  [FMPIClass.B]: 3.0,
+  [FMPIClass.A]: 3.0,
+  [FMPIClass.S]: 3.1,
+  [FMPIClass.R]: 3.3,
+  [FMPIClass.P]: 3.4,
+  [FMPIClass.X]: 3.5,
+};
+
+export const defaultDampingModifiers: DampingModifiers = {
+  reboundDamping: 65,
+  bumpDamping: 45,
+};
+
+export const defaultFMModifiers: FMModifiers = {
+  rollCenterOffset: 1,
+  antiDive: 30,
+  antiSquat: 40,
+};
+
+export interface CalculatorGame {
+  title: string;
+  piClasses: (FHPIClass | FMPIClass)[];
+  defaultPIClass: FHPIClass | FMPIClass;
+  springTypes: SpringsType[];
+  arbClassModifiers: Record<string, number>;
+  frequencyClassModifiers: Record<string, number>;
+}
+
+export const calculatorGames: Record<FormGame, CalculatorGame> = {
+  fh5: {
+    title: 'Forza Horizon 5',
+    piClasses: Object.values(FHPIClass),
+    defaultPIClass: FHPIClass.S1,
+    springTypes: Object.values(SpringsType),
+    arbClassModifiers: defaultARBClassModifiersMap,
+    frequencyClassModifiers: defaultFrequencyClassModifiersMap,
+  },
+  fm8: {
+    title: 'Forza Motorsport',
+    piClasses: Object.values(FMPIClass),
+    defaultPIClass: FMPIClass.A,
+    // Motorsport doesn't have offroad springs
+    springTypes: [SpringsType.race, SpringsType.rally, SpringsType.drift],
+    arbClassModifiers: defaultFMARBClassModifiersMap,
+    frequencyClassModifiers: defaultFMFrequencyClassModifiersMap,
+  },
+};
+
 export type SpringTypeModifiersMap = Record<SpringsType, SpringTypeModifiers>;
 
+export interface AccelDecel {
+  accel: number;
+  decel: number;
+}
+
+/**
+ * Starting points for the settings that depend on the surface rather than the springs
+ */
+export interface DisciplineSettings {
+  /**
+   * Percent of the ride height range, 0 is the lowest
+   */
+  rideHeight: FrontRear;
+  /**
+   * In bar, for a car with an even weight balance
+   */
+  tirePressure: FrontRear;
+  camber: FrontRear;
+  toe: FrontRear;
+  caster: number;
+  diff: { front: AccelDecel, rear: AccelDecel };
+  brakePressure: number;
+  /**
+   * Percent to the rear, used instead of the weight balance
+   */
+  centerDiff?: number;
+}
+
+/**
+ * In kg, the Peel P50 is the lightest car in the games.  Lower weights leave no spring rates to work from.
+ */
+export const minCarWeight = 50;
+
+/**
+ * In kg, the sprung weight of a corner is kept above this when the unsprung weight is as heavy as the corner
+ */
+const minSprungCornerMass = 5;
+
+/**
+ * Ride height ranges differ per car, the percents are applied to a typical range in cm
+ */
+export const typicalRideHeightRange = { min: 9, max: 25 };
+
+export const disciplineSettings: Record<SpringsType, DisciplineSettings> = {
+  [SpringsType.race]: {
+    rideHeight: { front: 10, rear: 15 },
+    tirePressure: { front: 2, rear: 2 },
+    camber: { front: -1.5, rear: -1 },
+    toe: { front: 0, rear: 0 },
+    caster: 5.5,
+    brakePressure: 100,
+    diff: {
+      front: { accel: 25, decel: 0 },
+      rear: { accel: 60, decel: 20 },
+    },
+  },
+  [SpringsType.rally]: {
+    rideHeight: { front: 50, rear: 55 },
+    tirePressure: { front: 1.8, rear: 1.8 },
+    camber: { front: -1, rear: -0.5 },
+    toe: { front: 0, rear: 0 },
+    caster: 5,
+    brakePressure: 95,
+    diff: {
+      front: { accel: 40, decel: 10 },
+      rear: { accel: 70, decel: 30 },
+    },
+  },
+  [SpringsType.offroad]: {
+    rideHeight: { front: 90, rear: 90 },
+    tirePressure: { front: 1.6, rear: 1.6 },
+    camber: { front: -0.5, rear: -0.3 },
+    toe: { front: 0, rear: 0 },
+    caster: 4.5,
+    brakePressure: 90,
+    diff: {
+      front: { accel: 50, decel: 15 },
+      rear: { accel: 80, decel: 40 },
+    },
+  },
+  // Drifting wants the rear locked, low rear grip and lots of front camber and caster
+  [SpringsType.drift]: {
+    rideHeight: { front: 20, rear: 25 },
+    tirePressure: { front: 2.2, rear: 1.8 },
+    camber: { front: -5, rear: -1 },
+    toe: { front: 0.5, rear: -0.2 },
+    caster: 7,
+    brakePressure: 80,
+    diff: {
+      front: { accel: 0, decel: 0 },
+      rear: { accel: 100, decel: 100 },
+    },
+    centerDiff: 85,
+  },
+};
+
+/**
+ * `general` is the percentage of the spring rate for the class's target frequency
+ */
 export const defaultSpringTypeModifiersMap: SpringTypeModifiersMap = {
   [SpringsType.race]: {
-    general: 185,
+    general: 100,
     rebound: 100,
     bump: 60,
   },
   [SpringsType.offroad]: {
-    general: 80,
+    general: 45,
     rebound: 80,
     bump: 50,
   },
   [SpringsType.rally]: {
-    general: 80,
-    rebound: 80,
-    bump: 50,
+    general: 50,
+    rebound: 90,
+    bump: 55,
   },
+  // Softer than race so the rear steps out progressively
   [SpringsType.drift]: {
-    general: 185,
-    rebound: 100,
-    bump: 60,
+    general: 90,
+    rebound: 85,
+    bump: 55,
   },
 };
 
@@ -208,10 +456,299 @@ export const valueDeltas = {
 };
 
 export function calcSpringsDeltas(tuneType: SpringsType, weight: number): FrontRear {
-  const multipliers = springRangeMultipliers[tuneType];
+  const rangeMultipliers = springRangeMultipliers[tuneType];
+  return {
+    front: weight * rangeMultipliers.max.front - weight * rangeMultipliers.min.front,
+    rear: weight * rangeMultipliers.max.rear - weight * rangeMultipliers.min.rear,
+  };
+}
+
+/**
+ * 1 kgf/mm in N/m
+ */
+const kgfmmInNewtons = 1000 / multipliers.springs.newtonsKgf;
+
+/**
+ * 1 kgf/mm in the games, in N/m.  The games show 1 kgf/mm as 5.6 lbf/in rather than 56,
+ * their lbf/in are real so their kgf/mm are a tenth of a real one.
+ */
+const gameKgfmmInNewtons = kgfmmInNewtons / 10;
+
+/**
+ * Spring rate in N/m for a natural frequency.  The wheel rate is the spring rate scaled by the
+ * motion ratio squared, so a lower motion ratio needs a stiffer spring.
+ */
+export function springRateForFrequency(frequency: number, sprungCornerMass: number, motionRatio: number) {
+  const wheelRate = (2 * frequency * Math.PI) ** 2 * sprungCornerMass;
+  return wheelRate / (motionRatio ** 2);
+}
+
+/**
+ * Natural frequency in Hz of a spring rate in N/m
+ */
+export function naturalFrequency(springRate: number, sprungCornerMass: number, motionRatio: number) {
+  const wheelRate = springRate * (motionRatio ** 2);
+  return Math.sqrt(wheelRate / sprungCornerMass) / (2 * Math.PI);
+}
+
+/**
+ * Critical damping in N·s/m of a spring rate in N/m, damping above it stops the corner oscillating
+ */
+export function criticalDamping(springRate: number, sprungCornerMass: number, motionRatio: number) {
+  const wheelRate = springRate * (motionRatio ** 2);
+  return 2 * Math.sqrt(wheelRate * sprungCornerMass);
+}
+
+/**
+ * Uses the vehicle's motion ratios and unsprung weights when it's known, otherwise the modifiers
+ */
+function getSuspension(inputs: TuneInputs, percents: TuneModifiers) {
+  const motionRatio = findMotionRatio(inputs.vehicle);
+  if (motionRatio) {
+    return {
+      motionRatio: { front: motionRatio.frontMRSpring, rear: motionRatio.rearMRSpring },
+      unsprungCornerWeight: { front: motionRatio.frontUnsprung, rear: motionRatio.rearUnsprung },
+    };
+  }
+
+  return {
+    motionRatio: percents.motionRatio,
+    unsprungCornerWeight: { front: percents.unsprungCornerWeight, rear: percents.unsprungCornerWeight },
+  };
+}
+
+function getModifierPercents(modifiers: TuneModifiers): TuneModifiers {
   return {
-    front: weight * multipliers.max.front - weight * multipliers.min.front,
-    rear: weight * multipliers.max.rear - weight * multipliers.min.rear,
+    brakeOffset: modifiers.brakeOffset / 100,
+    driveOffset: modifiers.driveOffset / 100,
+    general: modifiers.general / 100,
+    rebound: modifiers.rebound / 100,
+    bump: modifiers.bump / 100,
+    arb: modifiers.arb / 100,
+    freq: modifiers.freq,
+    unsprungCornerWeight: modifiers.unsprungCornerWeight,
+    motionRatio: {
+      front: modifiers.motionRatio.front / 100,
+      rear: modifiers.motionRatio.rear / 100,
+    },
+    reboundDamping: modifiers.reboundDamping / 100,
+    bumpDamping: modifiers.bumpDamping / 100,
+    rollCenterOffset: modifiers.rollCenterOffset,
+    antiDive: modifiers.antiDive,
+    antiSquat: modifiers.antiSquat,
+  };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+interface DampingInputs {
+  springs: FrontRear;
+  cornerMass: FrontRear;
+  motionRatio: FrontRear;
+}
+
+/**
+ * Maps the damping ratios onto the slider ranges.  A ratio of 1 with the stiffest springs
+ * for the car's weight is the top of the range, so softer springs get less damping.
+ */
+function calculateCriticalDamping(inputs: TuneInputs, percents: TuneModifiers, damping: DampingInputs) {
+  const { springs, cornerMass, motionRatio } = damping;
+  const maxSprings: FrontRear = {
+    front: springRanges.max.front(inputs.springs, inputs.weight),
+    rear: springRanges.max.rear(inputs.springs, inputs.weight),
+  };
+
+  const critical: FrontRear = {
+    front: criticalDamping(springs.front * gameKgfmmInNewtons, cornerMass.front, motionRatio.front),
+    rear: criticalDamping(springs.rear * gameKgfmmInNewtons, cornerMass.rear, motionRatio.rear),
+  };
+  const maxCritical: FrontRear = {
+    front: criticalDamping(maxSprings.front * gameKgfmmInNewtons, cornerMass.front, motionRatio.front),
+    rear: criticalDamping(maxSprings.rear * gameKgfmmInNewtons, cornerMass.rear, motionRatio.rear),
+  };
+
+  const stiffness: FrontRear = {
+    front: critical.front / maxCritical.front,
+    rear: critical.rear / maxCritical.rear,
+  };
+
+  const toRange = (range: ValueRange, ratio: number): FrontRear => {
+    const delta = calcDelta(range);
+    return {
+      front: clamp(range.min.front + delta.front * ratio * stiffness.front, range.min.front, range.max.front),
+      rear: clamp(range.min.rear + delta.rear * ratio * stiffness.rear, range.min.rear, range.max.rear),
+    };
+  };
+
+  return {
+    rebound: toRange(ranges.rebound, percents.reboundDamping),
+    bump: toRange(ranges.bump, percents.bumpDamping),
+    criticalDamping: critical,
+  };
+}
+
+/**
+ * The heavier axle gets more tire pressure and camber.  Only the driven axles get differential settings.
+ */
+function calculateDiscipline(inputs: TuneInputs, carWeightBalance: FrontRear) {
+  const settings = disciplineSettings[inputs.springs];
+  const balanceOffset = carWeightBalance.front - 0.5;
+  const rideHeightDelta = typicalRideHeightRange.max - typicalRideHeightRange.min;
+
+  const diff: TuneCalculatorResult['diff'] = {};
+  if (inputs.drivetrain !== DriveType.rwd) diff.front = { ...settings.diff.front };
+  if (inputs.drivetrain !== DriveType.fwd) diff.rear = { ...settings.diff.rear };
+
+  return {
+    rideHeightPercent: { ...settings.rideHeight },
+    rideHeight: {
+      front: typicalRideHeightRange.min + rideHeightDelta * (settings.rideHeight.front / 100),
+      rear: typicalRideHeightRange.min + rideHeightDelta * (settings.rideHeight.rear / 100),
+    },
+    tirePressure: {
+      front: settings.tirePressure.front + balanceOffset / 2,
+      rear: settings.tirePressure.rear - balanceOffset / 2,
+    },
+    camber: {
+      front: settings.camber.front * (1 + balanceOffset),
+      rear: settings.camber.rear * (1 - balanceOffset),
+    },
+    toe: { ...settings.toe },
+    caster: settings.caster,
+    diff,
+    // The rear downforce keeps the aero balance in line with the weight balance
+    aero: {
+      front: inputs.frontAero,
+      rear: (inputs.frontAero / carWeightBalance.front) * carWeightBalance.rear,
+    },
+    brakePressure: settings.brakePressure,
+  };
+}
+
+function clampPercent(value: number) {
+  return Math.min(100, Math.max(0, value));
+}
+
+/**
+ * The heavier axle gets more of the roll center offset.  Anti-dive follows the front weight,
+ * and anti-squat is halved when the rear wheels aren't driven.
+ */
+function calculateFMGeometry(inputs: TuneInputs, modifiers: TuneModifiers, carWeightBalance: FrontRear) {
+  const rollCenterHeightOffset: FrontRear = {
+    front: modifiers.rollCenterOffset * carWeightBalance.front * 2,
+    rear: modifiers.rollCenterOffset * carWeightBalance.rear * 2,
+  };
+
+  const antiGeometryPercent: FrontRear = {
+    front: clampPercent(modifiers.antiDive * carWeightBalance.front * 2),
+    rear: clampPercent(inputs.drivetrain === DriveType.fwd ? modifiers.antiSquat / 2 : modifiers.antiSquat),
+  };
+
+  return { rollCenterHeightOffset, antiGeometryPercent };
+}
+
+/**
+ * Calculates the suggested tune, see the notes below.  Modifiers are percentages, except for
+ * the frequencies and the unsprung corner weight.
+ */
+export default function calculateTune(tuneInputs: TuneInputs, modifiers: TuneModifiers): TuneCalculatorResult {
+  const inputs: TuneInputs = { ...tuneInputs, weight: Math.max(tuneInputs.weight, minCarWeight) };
+  const percents = getModifierPercents(modifiers);
+
+  const deltas = {
+    springs: calcSpringsDeltas(inputs.springs, inputs.weight),
+    ...valueDeltas,
+  };
+
+  const carWeightBalance: FrontRear = {
+    front: inputs.weightBalance / 100,
+    rear: 1 - inputs.weightBalance / 100,
+  };
+
+  const totalTireWidth = inputs.tireWidth.front + inputs.tireWidth.rear;
+  const tireWeightBalance: FrontRear = {
+    front: inputs.tireWidth.front / totalTireWidth,
+    rear: inputs.tireWidth.rear / totalTireWidth,
+  };
+
+  const carWeight: FrontRear = {
+    front: inputs.weight * carWeightBalance.front,
+    rear: inputs.weight * carWeightBalance.rear,
+  };
+
+  const { motionRatio, unsprungCornerWeight } = getSuspension(inputs, percents);
+
+  const cornerMass: FrontRear = {
+    front: Math.max(carWeight.front / 2 - unsprungCornerWeight.front, minSprungCornerMass),
+    rear: Math.max(carWeight.rear / 2 - unsprungCornerWeight.rear, minSprungCornerMass),
+  };
+
+  const springRatesInNewtons: FrontRear = {
+    front: springRateForFrequency(modifiers.freq.front, cornerMass.front, motionRatio.front),
+    rear: springRateForFrequency(modifiers.freq.rear, cornerMass.rear, motionRatio.rear),
+  };
+
+  const springRates: FrontRear = {
+    front: springRatesInNewtons.front / gameKgfmmInNewtons,
+    rear: springRatesInNewtons.rear / gameKgfmmInNewtons,
+  };
+
+  const weightBalance: FrontRear = {
+    front: (tireWeightBalance.front + carWeightBalance.front) / 2,
+    rear: (tireWeightBalance.rear + carWeightBalance.rear) / 2,
+  };
+
+  // The suggested springs are the spring rates for the target frequencies, softened by the spring type
+  const springs: FrontRear = {
+    front: springRates.front * percents.general,
+    rear: springRates.rear * percents.general,
+  };
+
+  if (inputs.drivetrain === DriveType.fwd) {
+    springs.front *= (1 - percents.driveOffset);
+  } else if (inputs.drivetrain === DriveType.rwd) {
+    springs.rear *= (1 - percents.driveOffset);
+  }
+
+  const linearRebound: FrontRear = {
+    front: ((springs.front / deltas.springs.front) * deltas.rebound.front) * percents.rebound,
+    rear: ((springs.rear / deltas.springs.rear) * deltas.rebound.rear) * percents.rebound,
+  };
+
+  const damping = inputs.dampingModel === DampingModel.critical
+    ? calculateCriticalDamping(inputs, percents, { springs, cornerMass, motionRatio })
+    : {
+      rebound: linearRebound,
+      bump: {
+        front: linearRebound.front * percents.bump,
+        rear: linearRebound.rear * percents.bump,
+      },
+    };
+
+  const arbs: FrontRear = {
+    front: ((springs.front / deltas.springs.front) * deltas.arb.front) * percents.arb,
+    rear: ((springs.rear / deltas.springs.rear) * deltas.arb.rear) * percents.arb,
+  };
+
+  return {
+    weightBalance,
+    springs,
+    springRates,
+    springRatesInNewtons,
+    naturalFrequency: {
+      front: naturalFrequency(springs.front * gameKgfmmInNewtons, cornerMass.front, motionRatio.front),
+      rear: naturalFrequency(springs.rear * gameKgfmmInNewtons, cornerMass.rear, motionRatio.rear),
+    },
+    motionRatio,
+    unsprungCornerWeight,
+    ...damping,
+    arbs,
+    brakeBalance: (weightBalance.rear + percents.brakeOffset) * 100,
+    centerDiff: disciplineSettings[inputs.springs].centerDiff ?? weightBalance.rear * 100,
+    ...calculateDiscipline(inputs, carWeightBalance),
+    ...(inputs.game === 'fm8' ? calculateFMGeometry(inputs, modifiers, carWeightBalance) : {}),
   };
 }
 
@@ -223,9 +760,9 @@ StaticLoad = SprungWeight / MotionRatio
 SpringRate = StaticLoad / ShockRideHeight
 
 Desired Freq, Hz: 1.5 - 2.0 Hz for racecars, 3.0 - 5.0+ Hz for high downforce racecars
-SpringRate = (2 * Desired Freq, Hz * Math.pi())^2 * SprungCornerWeight
-WheelRate = MotionRatio^2 * CalculatedSpringRate
-NaturalFreq = Math.sqrt(SpringRate / SprungCornerWeight) / (2 * Math.pi())
+WheelRate = (2 * Desired Freq, Hz * Math.pi())^2 * SprungCornerWeight
+SpringRate = WheelRate / MotionRatio^2
+NaturalFreq = Math.sqrt(SpringRate * MotionRatio^2 / SprungCornerWeight) / (2 * Math.pi())
 
 Damping:
 https://suspensionsecrets.co.uk/dampers/
@@ -239,9 +776,9 @@ Spring ranges:
 front: weight *
 
 Springs:
-weightAsForce is the weight converted to newtons
-front: weightAsForce * frontWeightDistribution * modifiers.general
- rear: weightAsForce *  rearWeightDistribution * modifiers.general
+springRate is the rate for the class's target frequency, see above
+front: frontSpringRate * modifiers.general
+ rear:  rearSpringRate * modifiers.general
 
 Modify front if FWD, rear if RWD:
 springValue * (1 - driveOffset)
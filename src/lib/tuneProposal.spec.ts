@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+
+import { FHPIClass } from '../components/formatter/horizon/FHSetup';
+
+import calculateGearing, { GearingInputs, GearSpacing } from './gearing';
+import getTestForm from './testForm';
+import calculateTune, {
+  calculatorGames,
+  defaultDampingModifiers,
+  defaultFMModifiers,
+  defaultSpringTypeModifiersMap,
+  SpringsType,
+  TuneInputs,
+  TuneModifiers,
+} from './tune-calculator';
+import proposeFHTune, { describeSetting, TuneField, tuneFieldLabels } from './tuneProposal';
+import { DriveType, SpeedUnit } from './types';
+import { formatFloat } from './utils';
+
+function getInputs(inputs: Partial<TuneInputs> = {}): TuneInputs {
+  return {
+    game: 'fh5',
+    drivetrain: DriveType.rwd,
+    springs: SpringsType.race,
+    piClass: FHPIClass.A,
+    weight: 1400,
+    weightBalance: 52,
+    frontAero: 100,
+    tireWidth: { front: 255, rear: 285 },
+    ...inputs,
+  };
+}
+
+function getModifiers(): TuneModifiers {
+  const frequency = calculatorGames.fh5.frequencyClassModifiers[FHPIClass.A];
+  return {
+    ...defaultSpringTypeModifiersMap[SpringsType.race],
+    brakeOffset: 1,
+    driveOffset: 5,
+    arb: calculatorGames.fh5.arbClassModifiers[FHPIClass.A],
+    freq: { front: frequency, rear: frequency },
+    unsprungCornerWeight: 0,
+    motionRatio: { front: 100, rear: 100 },
+    ...defaultDampingModifiers,
+    ...defaultFMModifiers,
+  };
+}
+
+function propose(inputs: TuneInputs, form = getTestForm()) {
+  return proposeFHTune(inputs, calculateTune(inputs, getModifiers()), form);
+}
+
+describe('tuneProposal', () => {
+  it('should fill every tune field with a value and a rationale', () => {
+    const { settings, rationale } = propose(getInputs());
+
+    expect(Object.keys(tuneFieldLabels).sort()).toEqual(Object.keys(settings).sort());
+    (Object.keys(tuneFieldLabels) as TuneField[]).forEach((field) => {
+      expect(describeSetting(settings, field)).not.toBe('');
+      expect(rationale[field]).not.toBe('');
+    });
+  });
+
+  it('should keep the gears from the form', () => {
+    const form = getTestForm();
+    const { settings } = propose(getInputs(), form);
+
+    expect(settings.gears).toEqual(form.tune.gears);
+    expect(settings.aero.na).toBe(false);
+    expect(settings.brake.pressure).toBe('100');
+  });
+
+  it('should calculate the gears when the power band is known', () => {
+    const inputs = getInputs();
+    const gearingInputs: GearingInputs = {
+      redline: 8000,
+      peakPowerRpm: 7000,
+      tire: { width: 285, aspect: 35, rimDiameter: 19 },
+      topSpeed: 300,
+      speedUnit: SpeedUnit.kph,
+      gearCount: 6,
+      spacing: GearSpacing.geometric,
+    };
+    const { settings, rationale } = proposeFHTune(inputs, calculateTune(inputs, getModifiers()), getTestForm(), gearingInputs);
+
+    expect(settings.gears.ratios.filter(Boolean)).toHaveLength(7);
+    expect(settings.gears.ratios[0]).toBe(formatFloat(calculateGearing(gearingInputs).finalDrive, 2));
+    expect(rationale.gears).toBe('6 geometric gears, the top gear reaches 300 kph at the 8000 rpm redline');
+  });
+
+  it('should leave out aero when the car has none', () => {
+    const { settings, rationale } = propose(getInputs({ frontAero: 0 }));
+
+    expect(settings.aero.na).toBe(true);
+    expect(describeSetting(settings, 'aero')).toBe('N/A');
+    expect(rationale.aero).toBe('The car has no adjustable front aero');
+  });
+
+  it('should explain the driven axles', () => {
+    expect(propose(getInputs()).rationale.diff).toBe('Locks the driven rear axle for race');
+    expect(propose(getInputs({ drivetrain: DriveType.awd })).rationale.diff).toMatch(/front and rear axles for race, \d+% to the rear$/);
+  });
+});
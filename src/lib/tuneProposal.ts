@@ -0,0 +1,132 @@
+import getFHDefaultFormV1, { FHSetup, TuneSettings } from '../components/formatter/horizon/FHSetup';
+
+import { applyTuneToFHForm } from './calculatorForms';
+import calculateGearing, { applyGearing, GearingInputs, GearingResult } from './gearing';
+import { DampingModel, disciplineSettings, TuneCalculatorResult, TuneInputs, typicalRideHeightRange } from './tune-calculator';
+import { formatFloat } from './utils';
+
+export type TuneField = keyof TuneSettings;
+
+export interface TuneProposal {
+  settings: TuneSettings;
+  /**
+   * Why each field has the suggested value
+   */
+  rationale: Record<TuneField, string>;
+}
+
+/**
+ * Same order as the formatter's tune section
+ */
+export const tuneFieldLabels: Record<TuneField, string> = {
+  tires: 'Tire Pressure',
+  gears: 'Gearing',
+  camber: 'Camber',
+  toe: 'Toe',
+  caster: 'Caster',
+  arb: 'Anti-roll Bars',
+  springs: 'Springs',
+  rideHeight: 'Ride Height',
+  damping: 'Rebound',
+  bump: 'Bump',
+  aero: 'Aero',
+  brake: 'Brakes',
+  diff: 'Differential',
+};
+
+function percent(value: number) {
+  return formatFloat(value * 100, 1, '%');
+}
+
+function getGearingRationale(gearingInputs: GearingInputs, gearing: GearingResult): string {
+  const topSpeed = gearing.speeds[gearing.speeds.length - 1];
+  return `${gearingInputs.gearCount} ${gearingInputs.spacing.toLowerCase()} gears, the top gear reaches` +
+    ` ${formatFloat(topSpeed, 0)} ${gearingInputs.speedUnit} at the ${gearingInputs.redline} rpm redline`;
+}
+
+function getRationale(inputs: TuneInputs, tune: TuneCalculatorResult): Record<TuneField, string> {
+  const discipline = disciplineSettings[inputs.springs];
+  const frontHeavy = tune.weightBalance.front >= 0.5;
+  const driven = [tune.diff.front && 'front', tune.diff.rear && 'rear'].filter(Boolean).join(' and ');
+  const damping = inputs.dampingModel === DampingModel.critical
+    ? `from the critical damping of the suggested springs, ${formatFloat(tune.criticalDamping?.front ?? 0, 0)} N·s/m at the front`
+    : 'scaled from the springs, so stiffer springs get more damping';
+
+  return {
+    tires: `${inputs.springs} pressures, ${frontHeavy ? 'raised at the front' : 'raised at the rear'} for the ` +
+      `${percent(tune.weightBalance.front)} front weight so the heavier axle's tires don't roll over`,
+    gears: 'Kept from the form, the gear ratios need the engine\'s redline and peak power rpm',
+    camber: `${inputs.springs} camber, more negative on the heavier axle to keep the tire flat under load`,
+    toe: !tune.toe.front && !tune.toe.rear
+      ? 'Zero toe keeps the tires from scrubbing on the straights'
+      : 'Toe out at the front sharpens turn in, toe in at the rear keeps the car stable',
+    caster: `${formatFloat(discipline.caster, 1)}° adds camber as the wheels turn and self-centers the steering`,
+    arb: `From the ${inputs.piClass} class modifier and the ${percent(tune.weightBalance.front)} front balance of the car and tires`,
+    springs: `Set for a ${formatFloat(tune.naturalFrequency.front, 2)} Hz front and ${formatFloat(tune.naturalFrequency.rear, 2)} Hz` +
+      ` rear natural frequency with the car's ${formatFloat(tune.motionRatio.front, 2)} front motion ratio`,
+    rideHeight: `${formatFloat(tune.rideHeightPercent.front, 0)}% / ${formatFloat(tune.rideHeightPercent.rear, 0)}%` +
+      ` of a typical ${typicalRideHeightRange.min} - ${typicalRideHeightRange.max} cm range, check the car's own limits`,
+    damping: `Rebound ${damping}`,
+    bump: `Bump is kept below rebound, ${damping}`,
+    aero: tune.aero.front
+      ? `The rear downforce matches the aero balance to the ${percent(tune.weightBalance.front)} front weight`
+      : 'The car has no adjustable front aero',
+    brake: `${formatFloat(tune.brakeBalance, 0)}% front bias follows the weight balance,` +
+      ` ${formatFloat(tune.brakePressure, 0)}% pressure for ${inputs.springs.toLowerCase()}`,
+    diff: driven
+      ? `Locks the driven ${driven} axle${tune.diff.front && tune.diff.rear ? 's' : ''} for ${inputs.springs.toLowerCase()}` +
+        `${tune.diff.front && tune.diff.rear ? `, ${formatFloat(tune.centerDiff, 0)}% to the rear` : ''}`
+      : 'No driven axles',
+  };
+}
+
+function frontRear(setting: { front: string, rear: string, units?: string, na?: boolean }) {
+  if (setting.na) return 'N/A';
+  return `${setting.front} / ${setting.rear}${setting.units ? ` ${setting.units}` : ''}`;
+}
+
+/**
+ * The suggested value as it's shown next to the rationale
+ */
+export function describeSetting(settings: TuneSettings, field: TuneField): string {
+  switch (field) {
+    case 'gears':
+      return settings.gears.na ? 'N/A' : settings.gears.ratios.filter(Boolean).join(' / ');
+    case 'caster':
+      return settings.caster;
+    case 'brake':
+      return `${settings.brake.bias}% bias, ${settings.brake.pressure}% pressure`;
+    case 'diff': {
+      const { front, rear, center } = settings.diff;
+      return [
+        front.accel && `Front ${front.accel}% / ${front.decel}%`,
+        rear.accel && `Rear ${rear.accel}% / ${rear.decel}%`,
+        center && `Center ${center}%`,
+      ].filter(Boolean).join(', ');
+    }
+    default:
+      return frontRear(settings[field]);
+  }
+}
+
+/**
+ * A full FH tune from the calculator.  The form's other values are kept, the gears are only
+ * calculated when the engine's power band is known.
+ */
+export default function proposeFHTune(
+  inputs: TuneInputs,
+  tune: TuneCalculatorResult,
+  form?: FHSetup,
+  gearingInputs?: GearingInputs,
+): TuneProposal {
+  const settings = applyTuneToFHForm(form ?? getFHDefaultFormV1(), tune).tune;
+  const rationale = getRationale(inputs, tune);
+
+  if (gearingInputs) {
+    const gearing = calculateGearing(gearingInputs);
+    applyGearing(settings.gears, gearing);
+    rationale.gears = getGearingRationale(gearingInputs, gearing);
+  }
+
+  return { settings, rationale };
+}
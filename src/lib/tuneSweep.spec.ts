@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+
+import { FHPIClass } from '../components/formatter/horizon/FHSetup';
+
+import { getCalculatorUnits } from './calculatorUnits';
+import calculateTune, {
+  calculatorGames,
+  defaultDampingModifiers,
+  defaultFMModifiers,
+  defaultSpringTypeModifiersMap,
+  SpringsType,
+  TuneInputs,
+  TuneModifiers,
+} from './tune-calculator';
+import sweepTune, { getSweepLabels, getSweepSeries, getSweepValues, maxSweepPoints, sweepToTable } from './tuneSweep';
+import { DriveType } from './types';
+
+function getInputs(): TuneInputs {
+  return {
+    game: 'fh5',
+    drivetrain: DriveType.rwd,
+    springs: SpringsType.race,
+    piClass: FHPIClass.A,
+    weight: 1400,
+    weightBalance: 52,
+    frontAero: 0,
+    tireWidth: { front: 255, rear: 285 },
+  };
+}
+
+function getModifiers(inputs: TuneInputs): TuneModifiers {
+  const frequency = calculatorGames.fh5.frequencyClassModifiers[inputs.piClass];
+  return {
+    ...defaultSpringTypeModifiersMap[inputs.springs],
+    brakeOffset: 1,
+    driveOffset: 5,
+    arb: calculatorGames.fh5.arbClassModifiers[inputs.piClass],
+    freq: { front: frequency, rear: frequency },
+    unsprungCornerWeight: 0,
+    motionRatio: { front: 100, rear: 100 },
+    ...defaultDampingModifiers,
+    ...defaultFMModifiers,
+  };
+}
+
+describe('tuneSweep', () => {
+  it('should step through the range', () => {
+    expect(getSweepValues(getInputs(), 'weightBalance', { min: 45, max: 55, step: 2.5 })).toEqual([45, 47.5, 50, 52.5, 55]);
+    expect(getSweepValues(getInputs(), 'weight', { min: 0, max: 1_000_000, step: 1 })).toHaveLength(maxSweepPoints);
+    expect(getSweepValues(getInputs(), 'weight', { min: 1000, max: 900, step: 100 })).toEqual([1000]);
+    expect(getSweepValues(getInputs(), 'piClass')).toEqual(calculatorGames.fh5.piClasses);
+  });
+
+  it('should only change the swept field', () => {
+    const inputs = getInputs();
+    const points = sweepTune(inputs, getModifiers, 'weight', { min: 1000, max: 1400, step: 200 });
+
+    expect(points.map(({ value }) => value)).toEqual([1000, 1200, 1400]);
+    expect(points[2].tune).toEqual(calculateTune(inputs, getModifiers(inputs)));
+    expect(points[0].tune.springs.front).toBeLessThan(points[2].tune.springs.front);
+  });
+
+  it('should use the modifiers of each class', () => {
+    const points = sweepTune(getInputs(), getModifiers, 'piClass');
+    const arbs = getSweepSeries(points, 'arbs');
+
+    expect(arbs.map(({ label }) => label)).toEqual(['Front', 'Rear']);
+    expect(new Set(arbs[0].values).size).toBeGreaterThan(1);
+  });
+
+  it('should write a tab separated table', () => {
+    const points = sweepTune(getInputs(), getModifiers, 'weightBalance', { min: 50, max: 52, step: 2 });
+    const [header, ...rows] = sweepToTable('weightBalance', points).split('\n');
+
+    expect(header.split('\t')).toEqual([
+      'Front Weight',
+      'Springs Front (kgf/mm)',
+      'Springs Rear (kgf/mm)',
+      'ARB\'s Front',
+      'ARB\'s Rear',
+      'Rebound Front',
+      'Rebound Rear',
+      'Bump Front',
+      'Bump Rear',
+    ]);
+    expect(rows).toHaveLength(2);
+    expect(rows[1].split('\t')[1]).toBe(points[1].tune.springs.front.toFixed(2));
+  });
+
+  it('should show the sweep in the global units', () => {
+    const units = getCalculatorUnits('Imperial');
+    const points = sweepTune(getInputs(), getModifiers, 'weight', { min: 1000, max: 1200, step: 200 });
+    const [header, row] = sweepToTable('weight', points, units).split('\n');
+
+    expect(header.split('\t').slice(0, 2)).toEqual(['Weight (lbs)', 'Springs Front (lbf/in)']);
+    expect(row.split('\t')[0]).toBe('2205');
+    expect(getSweepLabels('weight', points, units)).toEqual([2205, 2646]);
+    expect(getSweepSeries(points, 'springs', units)[0].values[0]).toBeCloseTo(points[0].tune.springs.front * 5.6, 0);
+  });
+});
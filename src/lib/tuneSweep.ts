@@ -0,0 +1,146 @@
+import { CalculatorUnits, calculatorUnits, convertUnit } from './calculatorUnits';
+import calculateTune, { calculatorGames, FrontRear, TuneCalculatorResult, TuneInputs, TuneModifiers } from './tune-calculator';
+import { UnitOfMeasure } from './types';
+
+export type NumericSweepField = 'weight' | 'weightBalance' | 'frontAero';
+
+export type SweepField = NumericSweepField | 'piClass';
+
+export const sweepFieldLabels: Record<SweepField, string> = {
+  weight: 'Weight',
+  weightBalance: 'Front Weight',
+  frontAero: 'Front Aero',
+  piClass: 'Class',
+};
+
+export interface SweepRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const defaultSweepRanges: Record<NumericSweepField, SweepRange> = {
+  weight: { min: 800, max: 2000, step: 100 },
+  weightBalance: { min: 40, max: 60, step: 2 },
+  frontAero: { min: 0, max: 300, step: 25 },
+};
+
+/**
+ * Keeps the charts and table small enough to read
+ */
+export const maxSweepPoints = 50;
+
+export interface SweepPoint {
+  value: number | string;
+  tune: TuneCalculatorResult;
+}
+
+export type SweepMetric = 'springs' | 'arbs' | 'rebound' | 'bump';
+
+export const sweepMetricLabels: Record<SweepMetric, string> = {
+  springs: 'Springs',
+  arbs: 'ARB\'s',
+  rebound: 'Rebound',
+  bump: 'Bump',
+};
+
+export interface SweepSeries {
+  label: string;
+  values: number[];
+}
+
+/**
+ * The fields and metrics with units.  Sweeps are calculated in `calculatorUnits` and only converted for display.
+ */
+const sweepUnits: Partial<Record<SweepField | SweepMetric, keyof CalculatorUnits>> = {
+  weight: 'weight',
+  frontAero: 'force',
+  springs: 'springRate',
+};
+
+export function getSweepUnit(key: SweepField | SweepMetric, units: CalculatorUnits): UnitOfMeasure | undefined {
+  const unitKey = sweepUnits[key];
+  return unitKey && units[unitKey];
+}
+
+export function fromCalculatorUnits(value: number, key: SweepField | SweepMetric, units: CalculatorUnits, precision: number) {
+  const unitKey = sweepUnits[key];
+  return unitKey ? convertUnit(value, calculatorUnits[unitKey], units[unitKey], precision) : value;
+}
+
+export function toCalculatorUnits(value: number, key: SweepField | SweepMetric, units: CalculatorUnits, precision: number) {
+  const unitKey = sweepUnits[key];
+  return unitKey ? convertUnit(value, units[unitKey], calculatorUnits[unitKey], precision) : value;
+}
+
+function withUnit(label: string, unit?: UnitOfMeasure) {
+  return unit ? `${label} (${unit})` : label;
+}
+
+/**
+ * The values a field is swept across.  Classes come from the game, numeric fields from the range.
+ */
+export function getSweepValues(inputs: TuneInputs, field: SweepField, range?: SweepRange): (number | string)[] {
+  if (field === 'piClass') return [...calculatorGames[inputs.game].piClasses];
+
+  const { min, max, step } = range ?? defaultSweepRanges[field];
+  if (!(step > 0) || max < min) return [min];
+
+  const count = Math.min(Math.floor((max - min) / step) + 1, maxSweepPoints);
+  return Array.from({ length: count }, (_, index) => Number((min + step * index).toFixed(6)));
+}
+
+/**
+ * Calculates the tune for each value of the field, the other inputs stay the same.  The modifiers
+ * are picked per point so that sweeping the class uses each class' modifiers.
+ */
+export default function sweepTune(
+  inputs: TuneInputs,
+  getModifiers: (inputs: TuneInputs) => TuneModifiers,
+  field: SweepField,
+  range?: SweepRange,
+): SweepPoint[] {
+  return getSweepValues(inputs, field, range).map((value) => {
+    const pointInputs = { ...inputs, [field]: value };
+    return { value, tune: calculateTune(pointInputs, getModifiers(pointInputs)) };
+  });
+}
+
+/**
+ * The swept values in the display units
+ */
+export function getSweepLabels(field: SweepField, points: SweepPoint[], units: CalculatorUnits = calculatorUnits): (number | string)[] {
+  return points.map(({ value }) => (typeof value === 'number' ? fromCalculatorUnits(value, field, units, 0) : value));
+}
+
+/**
+ * Front and rear lines of one metric
+ */
+export function getSweepSeries(points: SweepPoint[], metric: SweepMetric, units: CalculatorUnits = calculatorUnits): SweepSeries[] {
+  return (['front', 'rear'] as (keyof FrontRear)[]).map((axle) => ({
+    label: axle === 'front' ? 'Front' : 'Rear',
+    values: points.map(({ tune }) => fromCalculatorUnits(tune[metric][axle], metric, units, 2)),
+  }));
+}
+
+/**
+ * Tab separated so it can be pasted into a spreadsheet
+ */
+export function sweepToTable(field: SweepField, points: SweepPoint[], units: CalculatorUnits = calculatorUnits): string {
+  const metrics = Object.keys(sweepMetricLabels) as SweepMetric[];
+  const header = [
+    withUnit(sweepFieldLabels[field], getSweepUnit(field, units)),
+    ...metrics.flatMap((metric) => ['Front', 'Rear'].map((axle) => (
+      withUnit(`${sweepMetricLabels[metric]} ${axle}`, getSweepUnit(metric, units))
+    ))),
+  ];
+  const labels = getSweepLabels(field, points, units);
+  const rows = points.map(({ tune }, index) => [
+    `${labels[index]}`,
+    ...metrics.flatMap((metric) => (['front', 'rear'] as (keyof FrontRear)[]).map((axle) => (
+      fromCalculatorUnits(tune[metric][axle], metric, units, 2).toFixed(2)
+    ))),
+  ]);
+
+  return [header, ...rows].map((row) => row.join('\t')).join('\n');
+}
@@ -210,6 +210,12 @@ export enum BallastType {
   extraHeavy = 'Extra Heavy',
 }
 
+/**
+ * A number entered in a form input, or an empty string when left blank.
+ * Only a marker for the generated JSON Schemas, see `scripts/generate-setup-schemas.ts`
+ */
+export type NumericString = string;
+
 export interface FrontAndRearSettings<T = string> {
   front: T;
   rear: T;
@@ -226,31 +232,31 @@ export type UnitOfMeasure =
   | TorqueUnit
   | WeightUnit;
 
-export interface FrontAndRearWithUnits<U extends UnitOfMeasure = UnitOfMeasure, T = string> extends FrontAndRearSettings<T> {
+export interface FrontAndRearWithUnits<U extends UnitOfMeasure = UnitOfMeasure, T = NumericString> extends FrontAndRearSettings<T> {
   units: U;
 }
 
 export interface AccelDecelSettings {
-  accel: string;
-  decel: string;
+  accel: NumericString;
+  decel: NumericString;
 }
 
 export interface DifferentialTuneSettings {
   front: AccelDecelSettings;
   rear: AccelDecelSettings;
-  center: string;
+  center: NumericString;
   na?: boolean;
 }
 
 export interface GearTuneSettings {
   na?: boolean;
-  ratios: string[];
+  ratios: NumericString[];
 }
 
 export interface BrakeTuneSettings {
   na: boolean;
-  bias: string; // balance in FM
-  pressure: string;
+  bias: NumericString; // balance in FM
+  pressure: NumericString;
 }
 
 export interface ConversionSettings {
@@ -0,0 +1,28 @@
+import { inject, provide } from 'vue';
+
+import { browserStorage, FormUrlAdapter, StorageAdapter } from './adapters';
+
+const PROVIDER_KEY = 'USE_ADAPTERS';
+
+export interface Adapters {
+  storage?: StorageAdapter;
+  url?: FormUrlAdapter;
+}
+
+/**
+ * Replaces the browser storage and router for every component below, ie. in tests or when embedded
+ */
+export function provideAdapters(adapters: Adapters) {
+  provide(PROVIDER_KEY, adapters);
+}
+
+export function useStorageAdapter(): StorageAdapter {
+  return (inject<Adapters>(PROVIDER_KEY) ?? {}).storage ?? browserStorage;
+}
+
+/**
+ * Returns the provided URL adapter, the caller falls back to the router when there isn't one
+ */
+export function useUrlAdapter(): FormUrlAdapter | undefined {
+  return (inject<Adapters>(PROVIDER_KEY) ?? {}).url;
+}
@@ -0,0 +1,31 @@
+import { CalculatorPreset } from './calculatorPresets';
+import useLocalStorageState from './useLocalStorageState';
+
+const STORAGE_KEY = 'CALCULATOR_PRESETS';
+
+/**
+ * Named presets kept in local storage, saving a preset with an existing name replaces it
+ */
+export default function useCalculatorPresets() {
+  const presets = useLocalStorageState<CalculatorPreset[]>(STORAGE_KEY, []);
+
+  function find(name: string): CalculatorPreset | undefined {
+    return presets.value.find((preset) => preset.name === name);
+  }
+
+  function save(preset: CalculatorPreset) {
+    presets.value = [...presets.value.filter((p) => p.name !== preset.name), preset]
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  function remove(name: string) {
+    presets.value = presets.value.filter((preset) => preset.name !== name);
+  }
+
+  return {
+    presets,
+    find,
+    save,
+    remove,
+  };
+}
@@ -0,0 +1,139 @@
+import { compressToBase64, decompressFromBase64 } from 'lz-string';
+import { describe, expect, it } from 'vitest';
+
+import { FHSetup, getEncoderOptions } from '../components/formatter/horizon/FHSetup';
+import { FMSetupV3, getEncoderOptions as getFMEncoderOptions } from '../components/formatter/motorsport/FMSetup';
+
+import getTestForm, { getFMTestForm } from './testForm';
+import { Upgrade } from './types';
+import useFormEncoder, { FormEncoderOptions } from './useFormEncoder';
+
+const ENCODED_KEYED_FORMS = {
+  // The full test form
+  FH_TEST_FORM:
+    'N4IgziBcIGYBYFYD0A3AjCANLKoBWAdAMYECGAllOFiISaQDZUB2pNdBARjC29h5wDmVCP2JcAtr3YEUBACYiZc0kSoBBAOoARZWUXRRtMiQBeVAE4zVZTpeslOKe2M6kClQwAcZbsnBdjP04AU0DCYOZwrgsuQlJhQ19YzgiDaldYohCyRIygrJzOdKNSCGgAMRCLC1ILSmxSABcqACYABjQATgACKpq68h6AFgAOUZ6ABXIwJr4QTgB7AjDodpolsik1jeXSAE8qdexNznKQY4Xlzhadk+WiNTur4h5nzaI8y84Ady5cqijLobP6cLjpNCtVog4jxPIAZgQMKIaTaADYYXACG8QAhvn8sZw7NA0O18QQANYAklkmFU4pUNFIk5/BjUkAAWgwLIIbIZ0C5MMWVAQBGZCz+fwSVDQAHZxb8CKD0qN4TD9gQfNBZdCeRqEmQ2gq/vrBAQAB5URHq8GG6CtUY24oWqjDbkSsj0p4AbRAwwIo11IHhBC6lxDaHdrQIsuGNGjwzj2GjnRoaADjuw6YQ4vTibTBHhaqzBChIAAujzOOR2Wgkx7q+CZcauMx2bL2qL3YrOG3+SAusMIzDe8Q2NAGNwkOQolWAI7soM9hf9pd/Ig16UC9Pd9c1/vrAC+h6AA===',
+  // Only the car and springs differ from a blank FM v3 form
+  FM_SPRINGS_ONLY: 'N4IgziBcIGYLYA4D0A3AzCANLKoCGE0AsngF4AmeWIeALlCEQBoC0ArNQEYDuAdJwDteeAOYMAjACYADFz6D+5CeNkBfVUA=',
+};
+
+function withoutCustomSerializer(options: FormEncoderOptions): FormEncoderOptions {
+  return { ...options, serialize: undefined, deserialize: undefined };
+}
+
+describe('useFormEncoder', () => {
+  it('should encode forms with a schema tag and field map', () => {
+    const encoder = useFormEncoder<FHSetup>(withoutCustomSerializer(getEncoderOptions('v1')));
+    const encoded = encoder.encode(getTestForm());
+
+    const payload = JSON.parse(decompressFromBase64(encoded));
+
+    expect(payload.s).toBe('fh5/v1');
+    expect(payload.f.as).toBe('Ferrari');
+    expect(payload.f['bw.bn.ca']).toBe('lbf/in');
+    expect(payload.f['j.ac.bv']).toBe('r');
+    expect(payload.f).not.toHaveProperty('tune.springs.units');
+  });
+
+  it('should keep versioned links at their current size', () => {
+    const options = withoutCustomSerializer(getFMEncoderOptions('v3'));
+    const versioned = useFormEncoder<FMSetupV3>(options).encode(getFMTestForm());
+    const legacy = useFormEncoder<FMSetupV3>({ ...options, schema: undefined }).encode(getFMTestForm());
+
+    // The field map makes them about 2.5 times as long as legacy links, which is why formatter links are packed
+    expect(versioned.length).toBe(1128);
+    expect(legacy.length).toBe(444);
+  });
+
+  it('should round-trip a versioned form', () => {
+    const encoder = useFormEncoder<FHSetup>(withoutCustomSerializer(getEncoderOptions('v1')));
+    const form = getTestForm();
+
+    expect(encoder.decode(encoder.encode(form))).toMatchObject(form);
+  });
+
+  it('should return an empty string for a blank form', () => {
+    const options = getFMEncoderOptions('v3');
+    const encoder = useFormEncoder<FMSetupV3>(options);
+
+    expect(encoder.encode(options.getDefaultForm() as unknown as FMSetupV3)).toBe('');
+  });
+
+  it('should keep defaults for fields missing from a versioned payload', () => {
+    const encoder = useFormEncoder<FMSetupV3>(getFMEncoderOptions('v3'));
+    const encoded = compressToBase64(JSON.stringify({
+      s: 'fm8/v2',
+      f: {
+        make: 'Foo',
+        'tune.springs.front': '120',
+        'upgrades.engine.camshaft': 'sp',
+        'some.removed.field': 'x',
+      },
+    }));
+
+    const form = encoder.decode(encoded);
+
+    expect(form.make).toBe('Foo');
+    expect(form.tune.springs.front).toBe('120');
+    expect(form.tune.springs.rear).toBe('');
+    expect(form.upgrades.engine.camshaft).toBe('Sport');
+    expect(form.upgrades.engine.rotorsAndCompression).toBe('N/A');
+    expect(form).not.toHaveProperty('some');
+  });
+});
+
+describe('useFormEncoder keyed encoding', () => {
+  it('should only write non-default fields, keyed by their mangled key', () => {
+    const options = getFMEncoderOptions('v3', 'keyed');
+    const encoder = useFormEncoder<FMSetupV3>(options);
+    const form = options.getDefaultForm() as unknown as FMSetupV3;
+    form.make = 'Mazda';
+    form.tune.springs.front = '120';
+
+    const payload = JSON.parse(decompressFromBase64(encoder.encode(form)));
+
+    expect(payload).toEqual({ s: 'fm8/v3', f: { as: 'Mazda', 'bw.bn.ag': '120' } });
+  });
+
+  it('should decode a keyed FH fixture', () => {
+    const encoder = useFormEncoder<FHSetup>(getEncoderOptions('v1'));
+
+    expect(encoder.decode(ENCODED_KEYED_FORMS.FH_TEST_FORM)).toMatchObject(getTestForm());
+  });
+
+  it('should decode a sparse keyed FM fixture', () => {
+    const options = getFMEncoderOptions('v3');
+    const encoder = useFormEncoder<FMSetupV3>(options);
+    const expected = options.getDefaultForm() as unknown as FMSetupV3;
+    expected.make = 'Mazda';
+    expected.model = 'MX-5';
+    expected.tune.springs.front = '120';
+    expected.tune.springs.rear = '110';
+
+    expect(encoder.decode(ENCODED_KEYED_FORMS.FM_SPRINGS_ONLY)).toEqual(expected);
+  });
+
+  it('should round-trip FH and FM forms', () => {
+    const fhEncoder = useFormEncoder<FHSetup>(getEncoderOptions('v1', 'keyed'));
+    const fhForm = getTestForm();
+
+    expect(fhEncoder.decode(fhEncoder.encode(fhForm))).toMatchObject(fhForm);
+
+    const fmOptions = getFMEncoderOptions('v3', 'keyed');
+    const fmEncoder = useFormEncoder<FMSetupV3>(fmOptions);
+    const fmForm = fmOptions.getDefaultForm() as unknown as FMSetupV3;
+    fmForm.tune.gears.ratios[0] = '4.10';
+    fmForm.tune.brake.na = true;
+    fmForm.upgrades.engine.rotorsAndCompression = Upgrade.race;
+
+    expect(fmEncoder.decode(fmEncoder.encode(fmForm))).toEqual(fmForm);
+  });
+
+  it('should keep defaults for fields added after the form was encoded', () => {
+    const encoder = useFormEncoder<FMSetupV3>(getFMEncoderOptions('v3', 'keyed'));
+
+    const form = encoder.decode(ENCODED_KEYED_FORMS.FM_SPRINGS_ONLY);
+
+    expect(form.upgrades.engine.rotorsAndCompression).toBe('N/A');
+    expect(encoder.getSchema(ENCODED_KEYED_FORMS.FM_SPRINGS_ONLY)).toBe('fm8/v3');
+  });
+});
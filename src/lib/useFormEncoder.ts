@@ -1,16 +1,45 @@
 import { compressToBase64, decompressFromBase64 } from 'lz-string';
 
-import { mangleValueMap } from './mangle-lookup';
+import { mangleKeyMap, mangleValueMap } from './mangle-lookup';
 
 const VALUE_COUNT_BEFORE_TIRE_PROFILE_UPDATE = 98;
 const VALUE_COUNT_BEFORE_MOTOR_AND_BATTERY_UPDATE = 100;
 const TIRE_PROFILE_SIZE_INDEX = 38;
 const MOTOR_AND_BATTERY_INDEX = 24;
 
+/**
+ * `packed` writes bit-packed positional values, `keyed` writes a sparse object of mangled keys.
+ * Formatter links are always `packed`, `keyed` is only used by calculator presets.
+ * Keyed formatter links still decode, as any versioned payload does.
+ */
+export type FormEncoding = 'packed' | 'keyed';
+
 export interface FormEncoderOptions {
   getDefaultForm(): GenericForm;
-  serialize?: (flattenedObj: FlattenedObject) => string;
-  deserialize?: (encoded: string, flattenedKeys: string[]) => FlattenedObject;
+  /**
+   * Schema tag written into encoded payloads, ie. `fh5/v1`.
+   * When omitted, forms are encoded using the legacy positional array.
+   */
+  schema?: string;
+  /**
+   * Only write the fields that differ from the blank form, keyed by their mangled key.
+   * Requires a `schema`.  Used by calculator presets, formatter links are packed.
+   */
+  keyed?: boolean;
+  /**
+   * Custom serializer, used instead of the lz-string compressed JSON.
+   */
+  serialize?: (flattenedObj: FlattenedObject, schema?: string) => string;
+  /**
+   * Custom deserializer.  Returns undefined if the encoded string was not created by `serialize`,
+   * in which case it is decoded as lz-string compressed JSON.
+   */
+  deserialize?: (encoded: string, flattenedKeys: string[]) => FlattenedObject | undefined;
+  /**
+   * Reads the schema tag written by `serialize`.  Returns undefined if the encoded string
+   * was not created by `serialize`.
+   */
+  readSchema?: (encoded: string) => string | undefined;
 }
 
 export interface GenericForm {
@@ -21,10 +50,18 @@ export interface FlattenedObject {
   [key: string]: string | number | string[] | number[] | boolean;
 }
 
-export default function useFormEncoder<T>(blankFormFactory: () => T) {
+/**
+ * A self-describing payload.  `s` is the schema tag the form was encoded with,
+ * `f` maps each mangled flattened key to its mangled value.
+ */
+export interface VersionedPayload {
+  s: string;
+  f: Record<string, unknown>;
+}
+
+export default function useFormEncoder<T>(options: FormEncoderOptions) {
   function getBlankForm(): GenericForm {
-    const blankForm = blankFormFactory();
-    return blankForm as unknown as GenericForm;
+    return options.getDefaultForm();
   }
 
   const flattenedBlankForm = flattenForm(getBlankForm());
@@ -41,7 +78,23 @@ export default function useFormEncoder<T>(blankFormFactory: () => T) {
 
     if (serialized === serializedDefaultForm) return '';
 
-    const compressed = compressToBase64(serialized);
+    if (options.serialize) {
+      // Custom serializers may be positional, so only the blank form's keys are passed along
+      const aligned: FlattenedObject = {};
+      flattenedKeys.forEach((key) => {
+        aligned[key] = key in flattened ? flattened[key] : flattenedBlankForm[key];
+      });
+      return options.serialize(aligned, options.schema);
+    }
+
+    let payload = serialized;
+    if (options.schema) {
+      payload = options.keyed
+        ? serializeKeyedObject(flattened, flattenedBlankForm, options.schema)
+        : serializeVersionedObject(flattened, options.schema);
+    }
+
+    const compressed = compressToBase64(payload);
     return compressed;
   }
 
@@ -50,12 +103,9 @@ export default function useFormEncoder<T>(blankFormFactory: () => T) {
 
     if (!encoded) return defaultForm as T;
 
-    const json = decompressFromBase64(encoded);
-    if (!json) {
-      console.error('Decompressed string is empty');
-      return defaultForm as T;
-    }
-    const flattened = deserializeFlatObject(json, flattenedKeys, useLegacyDeserialization);
+    const flattened = options.deserialize?.(encoded, flattenedKeys) ?? decompressFlatObject(encoded, useLegacyDeserialization);
+    if (!flattened) return defaultForm as T;
+
     const form = unflattenFormInto(flattened, defaultForm);
     if (!form || !Object.keys(form).length) {
       throw new Error('Undefined or empty object.');
@@ -64,6 +114,35 @@ export default function useFormEncoder<T>(blankFormFactory: () => T) {
     return form as T;
   }
 
+  function decompressFlatObject(encoded: string, useLegacyDeserialization: boolean): FlattenedObject | undefined {
+    const json = decompressFromBase64(encoded);
+    if (!json) {
+      console.error('Decompressed string is empty');
+      return undefined;
+    }
+
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed)
+      ? deserializeFlatObject(parsed as never[], flattenedKeys, useLegacyDeserialization)
+      : deserializeVersionedObject(parsed, options.schema);
+  }
+
+  /**
+   * Returns the schema tag of a versioned or custom serialized payload, or undefined for legacy payloads
+   */
+  function getSchema(encoded: string = ''): string | undefined {
+    if (!encoded) return undefined;
+
+    const customSchema = options.readSchema?.(encoded);
+    if (customSchema || options.deserialize?.(encoded, flattenedKeys)) return customSchema;
+
+    const json = decompressFromBase64(encoded);
+    if (!json) return undefined;
+
+    const parsed = JSON.parse(json);
+    return isVersionedPayload(parsed) ? parsed.s : undefined;
+  }
+
   function flattenForm(object: GenericForm, path: string[] = []): FlattenedObject {
     const keys = Object.keys(object);
     const flattened: FlattenedObject = {};
@@ -98,8 +177,9 @@ export default function useFormEncoder<T>(blankFormFactory: () => T) {
         Array.isArray(targetValue)
       ) {
         const flattenedKey = valuePath.join('.');
-        const sourceValue = source[flattenedKey];
-        target[key] = sourceValue;
+        if (flattenedKey in source) {
+          target[key] = source[flattenedKey];
+        }
       } else {
         target[key] = unflattenFormInto(source, targetValue, valuePath);
       }
@@ -111,6 +191,7 @@ export default function useFormEncoder<T>(blankFormFactory: () => T) {
   return {
     encode,
     decode,
+    getSchema,
   };
 }
 
@@ -122,6 +203,28 @@ const unmangleValueMap: Record<string, string> = Object.keys(mangleValueMap).red
   {},
 );
 
+const unmangleKeyMap: Record<string, string> = Object.keys(mangleKeyMap).reduce(
+  (prev, cur) => ({
+    ...prev,
+    [mangleKeyMap[cur]]: cur,
+  }),
+  {},
+);
+
+function mangleKey(flattenedKey: string) {
+  return flattenedKey
+    .split('.')
+    .map((segment) => mangleKeyMap[segment] ?? segment)
+    .join('.');
+}
+
+function unmangleKey(mangledKey: string) {
+  return mangledKey
+    .split('.')
+    .map((segment) => (segment in mangleKeyMap ? segment : unmangleKeyMap[segment] ?? segment))
+    .join('.');
+}
+
 function mangleValue(value: unknown) {
   if (typeof value === 'boolean') return value ? 't' : 'f';
   if (typeof value === 'string' && value in mangleValueMap) return mangleValueMap[value];
@@ -156,12 +259,10 @@ function serializeFlatObject(flattenedObj: FlattenedObject): string {
 }
 
 function deserializeFlatObject(
-  value: string,
+  values: never[],
   flattenedKeys: string[],
   useLegacyDeserialization: boolean = false,
 ): FlattenedObject {
-  const values = JSON.parse(value) as never[];
-
   if (useLegacyDeserialization) {
     /**
      * Added Tire Profile Size
@@ -187,3 +288,69 @@ function deserializeFlatObject(
 
   return flattenedForm;
 }
+
+/**
+ * Versioned payloads carry their own schema tag and field map, so the position of a value
+ * no longer matters.  Fields missing from the payload keep the blank form's default, and
+ * fields the current schema doesn't know about are ignored.
+ *
+ * Keys are mangled the same way as keyed payloads, but every field is written so a link
+ * doesn't depend on the defaults of the form version that decodes it.  Links written
+ * before keys were mangled still decode, as `unmangleKey` passes full segments through.
+ */
+
+function serializeVersionedObject(flattenedObj: FlattenedObject, schema: string): string {
+  const keys = Object.keys(flattenedObj);
+  keys.sort();
+
+  const fields: Record<string, unknown> = {};
+  keys.forEach((key) => {
+    fields[mangleKey(key)] = mangleValue(flattenedObj[key]);
+  });
+
+  const payload: VersionedPayload = { s: schema, f: fields };
+  return JSON.stringify(payload);
+}
+
+/**
+ * Keyed payloads are sparse: only the fields that differ from the blank form are written,
+ * with each segment of the flattened key replaced by its entry in `mangleKeyMap`.
+ */
+
+function serializeKeyedObject(flattenedObj: FlattenedObject, flattenedDefaults: FlattenedObject, schema: string): string {
+  const keys = Object.keys(flattenedObj);
+  keys.sort();
+
+  const fields: Record<string, unknown> = {};
+  keys.forEach((key) => {
+    const value = mangleValue(flattenedObj[key]);
+    if (key in flattenedDefaults && JSON.stringify(value) === JSON.stringify(mangleValue(flattenedDefaults[key]))) return;
+    fields[mangleKey(key)] = value;
+  });
+
+  const payload: VersionedPayload = { s: schema, f: fields };
+  return JSON.stringify(payload);
+}
+
+export function isVersionedPayload(value: unknown): value is VersionedPayload {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const payload = value as VersionedPayload;
+  return typeof payload.s === 'string' && !!payload.f && typeof payload.f === 'object';
+}
+
+function deserializeVersionedObject(value: unknown, schema?: string): FlattenedObject {
+  if (!isVersionedPayload(value)) {
+    throw new Error('Unrecognized encoded form payload.');
+  }
+
+  if (schema && value.s !== schema) {
+    console.warn(`Decoding a "${value.s}" form with the "${schema}" schema`);
+  }
+
+  const flattenedForm: FlattenedObject = {};
+  Object.keys(value.f).forEach((key) => {
+    flattenedForm[unmangleKey(key)] = unmangleValue(value.f[key] as never) as never;
+  });
+
+  return flattenedForm;
+}
@@ -1,36 +1,25 @@
-import {
-  inject,
-  provide,
-  Ref,
-} from 'vue';
+import { inject, provide, ref, Ref, watch } from 'vue';
 
-import { GlobalUnit } from './types';
-import useLocalStorageState from './useLocalStorageState';
+import { StorageAdapter } from './adapters';
+import { getGlobalUnits, GLOBAL_UNITS_KEY, GlobalUnits, setGlobalUnits } from './globalUnits';
+import { useStorageAdapter } from './useAdapters';
 
-const PROVIDER_KEY = 'USE_GLOBAL_UNITS';
+export type UseGlobalUnits = GlobalUnits;
 
-export interface UseGlobalUnits {
-  globalUnit: GlobalUnit;
-  convertOnUnitChange: boolean;
-}
-
-function getDefaultGlobalState(): UseGlobalUnits {
-  return {
-    globalUnit: 'Metric',
-    convertOnUnitChange: true,
-  };
-}
+export function useGlobalUnitsProvider(storage: StorageAdapter = useStorageAdapter()): Ref<UseGlobalUnits> {
+  const state = ref<UseGlobalUnits>(getGlobalUnits(storage));
 
-export function useGlobalUnitsProvider(): Ref<UseGlobalUnits> {
-  const state = useLocalStorageState(PROVIDER_KEY, getDefaultGlobalState());
+  watch(state, (newVal) => {
+    setGlobalUnits(storage, newVal);
+  }, { deep: true });
 
-  provide(PROVIDER_KEY, state);
+  provide(GLOBAL_UNITS_KEY, state);
 
   return state;
 }
 
 export function useGlobalUnits(): Ref<UseGlobalUnits> {
-  const state = inject<Ref<UseGlobalUnits>>(PROVIDER_KEY);
+  const state = inject<Ref<UseGlobalUnits>>(GLOBAL_UNITS_KEY);
   if (!state) throw new Error('Injected state not available');
   return state;
 }
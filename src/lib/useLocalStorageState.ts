@@ -1,19 +1,13 @@
-import {
-  Ref,
-  ref,
-  watch,
-} from 'vue';
+import { ref, watch } from 'vue';
 
-export default function useLocalStorageState<T>(key: string, defaultState: T) {
-  const stored = localStorage.getItem(key);
-  const initial: T = stored ? JSON.parse(stored) : defaultState;
+import { readStoredState, StorageAdapter, writeStoredState } from './adapters';
+import { useStorageAdapter } from './useAdapters';
 
-  const state = ref<T>(initial);
-
-  if (!stored) localStorage.setItem(key, JSON.stringify(state.value));
+export default function useLocalStorageState<T>(key: string, defaultState: T, storage: StorageAdapter = useStorageAdapter()) {
+  const state = ref<T>(readStoredState(storage, key, defaultState));
 
   watch(state, (newVal) => {
-    localStorage.setItem(key, JSON.stringify(newVal));
+    writeStoredState(storage, key, newVal);
   }, { deep: true });
 
   return state;
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { nextTick } from 'vue';
+
+import { getDefaultPreset } from './calculatorPresets';
+import { defaultSpringTypeModifiersMap, SpringsType } from './tune-calculator';
+import useTuneCalculator from './useTuneCalculator';
+
+describe('useTuneCalculator', () => {
+  it('should keep the default modifiers when the modifiers are edited', async () => {
+    const defaultGeneral = defaultSpringTypeModifiersMap[SpringsType.race].general;
+    const { inputs, modifiers, springTypeModifiersMap } = useTuneCalculator();
+    inputs.springs = SpringsType.race;
+    await nextTick();
+
+    modifiers.general = defaultGeneral + 20;
+    await nextTick();
+
+    expect(springTypeModifiersMap[SpringsType.race].general).toBe(defaultGeneral + 20);
+    expect(defaultSpringTypeModifiersMap[SpringsType.race].general).toBe(defaultGeneral);
+    expect(getDefaultPreset().springTypeModifiers[SpringsType.race].general).toBe(defaultGeneral);
+  });
+});
@@ -4,15 +4,14 @@ import {
   watch,
 } from 'vue';
 
-import { FHPIClass } from '../components/formatter/horizon/FHSetup';
-
-import {
+import { CalculatorPreset } from './calculatorPresets';
+import calculateTune, {
   calcSpringsDeltas,
-  ClassModifiersMap,
-  defaultARBClassModifiersMap,
-  defaultFrequencyClassModifiersMap,
+  calculatorGames,
+  DampingModel,
+  defaultDampingModifiers,
+  defaultFMModifiers,
   defaultSpringTypeModifiersMap,
-  FrontRear,
   SpringsType,
   SpringTypeModifiersMap,
   TuneCalculatorResult,
@@ -20,30 +19,14 @@ import {
   TuneModifiers,
   valueDeltas,
 } from './tune-calculator';
-import {
-  DriveType,
-  SpringRateUnit,
-  WeightUnit,
-} from './types';
-
-const multipliers = {
-  springs: {
-    newtonsKgf: 0.1019716212978,
-    newtonsLbs: 0.57101471743224,
-  },
-  force: 0.45359236844386,
-  pressure: 0.0689475728,
-  length: 0.39370078740214,
-  weightNewtonsToMass: 9.80665,
-  speed: 0.621371,
-  power: 0.7456998715822702,
-};
+import { DriveType } from './types';
 
 export default function useTuneCalculator() {
   const inputs = reactive<TuneInputs>({
+    game: 'fh5',
     drivetrain: DriveType.rwd,
     springs: SpringsType.race,
-    piClass: FHPIClass.S1,
+    piClass: calculatorGames.fh5.defaultPIClass,
     weight: 1500,
     weightBalance: 50,
     frontAero: 112,
@@ -51,16 +34,27 @@ export default function useTuneCalculator() {
       front: 275,
       rear: 345,
     },
+    vehicle: '',
+    dampingModel: DampingModel.linear,
   });
 
-  const springTypeModifiersMap = reactive<SpringTypeModifiersMap>({ ...defaultSpringTypeModifiersMap });
-  const arbClassModifiersMap = reactive<ClassModifiersMap>({ ...defaultARBClassModifiersMap });
-  const freqClassModifiersMap = reactive<ClassModifiersMap>({ ...defaultFrequencyClassModifiersMap });
+  const springTypeModifiersMap = reactive<SpringTypeModifiersMap>(JSON.parse(JSON.stringify(defaultSpringTypeModifiersMap)));
+  // Class modifiers are kept per game, FH and FM share some class names
+  const arbClassModifiers = reactive({
+    fh5: { ...calculatorGames.fh5.arbClassModifiers },
+    fm8: { ...calculatorGames.fm8.arbClassModifiers },
+  });
+  const freqClassModifiers = reactive({
+    fh5: { ...calculatorGames.fh5.frequencyClassModifiers },
+    fm8: { ...calculatorGames.fm8.frequencyClassModifiers },
+  });
+  const arbClassModifiersMap = computed(() => arbClassModifiers[inputs.game]);
+  const freqClassModifiersMap = computed(() => freqClassModifiers[inputs.game]);
 
   function getFrequencyModifiers() {
     return {
-      front: freqClassModifiersMap[inputs.piClass],
-      rear: freqClassModifiersMap[inputs.piClass], // Math.floor(freqClassModifiersMap[inputs.piClass] * 0.92 * 10) / 10,
+      front: freqClassModifiersMap.value[inputs.piClass],
+      rear: freqClassModifiersMap.value[inputs.piClass], // Math.floor(freqClassModifiersMap.value[inputs.piClass] * 0.92 * 10) / 10,
     };
   }
   const modifiers = reactive<TuneModifiers>({
@@ -69,21 +63,23 @@ export default function useTuneCalculator() {
     general: springTypeModifiersMap[inputs.springs].general,
     rebound: springTypeModifiersMap[inputs.springs].rebound,
     bump: springTypeModifiersMap[inputs.springs].bump,
-    arb: arbClassModifiersMap[inputs.piClass],
+    arb: arbClassModifiersMap.value[inputs.piClass],
     freq: getFrequencyModifiers(),
     unsprungCornerWeight: 0,
     motionRatio: {
       front: 100,
       rear: 100,
     },
+    ...defaultDampingModifiers,
+    ...defaultFMModifiers,
   });
 
   watch(() => modifiers.arb, (current) => {
-    arbClassModifiersMap[inputs.piClass] = current;
+    arbClassModifiersMap.value[inputs.piClass] = current;
   });
 
   watch(modifiers, (current) => {
-    arbClassModifiersMap[inputs.piClass] = current.arb;
+    arbClassModifiersMap.value[inputs.piClass] = current.arb;
     springTypeModifiersMap[inputs.springs].general = current.general;
     springTypeModifiersMap[inputs.springs].rebound = current.rebound;
     springTypeModifiersMap[inputs.springs].bump = current.bump;
@@ -96,115 +92,82 @@ export default function useTuneCalculator() {
   });
 
   watch(() => inputs.piClass, (current) => {
-    modifiers.arb = arbClassModifiersMap[current];
+    modifiers.arb = arbClassModifiersMap.value[current];
     modifiers.freq = getFrequencyModifiers();
   });
 
-  const modifierPercents = computed<TuneModifiers>(() => ({
-    brakeOffset: modifiers.brakeOffset / 100,
-    driveOffset: modifiers.driveOffset / 100,
-    general: modifiers.general / 100,
-    rebound: modifiers.rebound / 100,
-    bump: modifiers.bump / 100,
-    arb: modifiers.arb / 100,
-    freq: modifiers.freq,
-    unsprungCornerWeight: modifiers.unsprungCornerWeight,
-    motionRatio: {
-      front: modifiers.motionRatio.front / 100,
-      rear: modifiers.motionRatio.rear / 100,
-    },
-  }));
+  watch(() => inputs.game, (current) => {
+    const game = calculatorGames[current];
+    if (!game.piClasses.includes(inputs.piClass)) inputs.piClass = game.defaultPIClass;
+    if (!game.springTypes.includes(inputs.springs)) [inputs.springs] = game.springTypes;
+    modifiers.arb = arbClassModifiersMap.value[inputs.piClass];
+    modifiers.freq = getFrequencyModifiers();
+  });
 
   const deltas = computed(() => ({
     springs: calcSpringsDeltas(inputs.springs, inputs.weight),
     ...valueDeltas,
   }));
 
-  const carWeightBalance = computed<FrontRear>(() => ({
-    front: inputs.weightBalance / 100,
-    rear: 1 - inputs.weightBalance / 100,
-  }));
+  const tune = computed<TuneCalculatorResult>(() => calculateTune(inputs, modifiers));
+
+  /**
+   * Seeds the inputs, ie. from a formatter form's stats
+   */
+  function load(values: Partial<TuneInputs>) {
+    Object.assign(inputs, values);
+  }
 
-  const tireWeightBalance = computed(() => {
-    const totalWidth = inputs.tireWidth.front + inputs.tireWidth.rear;
+  /**
+   * The modifiers for other inputs, ie. another class.  The current class keeps its edited frequencies.
+   */
+  function getModifiers(values: TuneInputs): TuneModifiers {
+    const sameClass = values.game === inputs.game && values.piClass === inputs.piClass;
+    const frequency = freqClassModifiers[values.game][values.piClass];
     return {
-      front: inputs.tireWidth.front / totalWidth,
-      rear: inputs.tireWidth.rear / totalWidth,
+      ...modifiers,
+      ...springTypeModifiersMap[values.springs],
+      arb: arbClassModifiers[values.game][values.piClass],
+      freq: sameClass ? { ...modifiers.freq } : { front: frequency, rear: frequency },
     };
-  });
-
-  const carWeight = computed<FrontRear>(() => ({
-    front: inputs.weight * carWeightBalance.value.front,
-    rear: inputs.weight * carWeightBalance.value.rear,
-  }));
-
-  const cornerWeight = computed<FrontRear>(() => ({
-    front: carWeight.value.front / 2 - modifiers.unsprungCornerWeight,
-    rear: carWeight.value.rear / 2 - modifiers.unsprungCornerWeight,
-  }));
-
-  const cornerMass = computed<FrontRear>(() => ({
-    front: cornerWeight.value.front,
-    rear: cornerWeight.value.rear,
-  }));
-
-  const springRatesInNewtons = computed<FrontRear>(() => ({
-    front: (2 * modifiers.freq.front * Math.PI) ** 2 * cornerMass.value.front * (modifierPercents.value.motionRatio.front ** 2),
-    rear: (2 * modifiers.freq.rear * Math.PI) ** 2 * cornerMass.value.rear * (modifierPercents.value.motionRatio.rear ** 2),
-  }));
-
-  const springRates = computed<FrontRear>(() => ({
-    front: 1,
-    rear: 1,
-  }));
-
-  const weightBalance = computed(() => ({
-    front: (tireWeightBalance.value.front + carWeightBalance.value.front) / 2,
-    rear: (tireWeightBalance.value.rear + carWeightBalance.value.rear) / 2,
-  }));
-
-  const weightAsForce = computed(() => inputs.weight * multipliers.springs.newtonsKgf);
+  }
 
-  const springs = computed(() => {
-    const result = {
-      front: weightAsForce.value * carWeightBalance.value.front * modifierPercents.value.general,
-      rear: weightAsForce.value * carWeightBalance.value.rear * modifierPercents.value.general,
+  function getPreset(name: string): CalculatorPreset {
+    const preset: CalculatorPreset = {
+      name,
+      springTypeModifiers: springTypeModifiersMap,
+      arbClassModifiers,
+      freqClassModifiers,
+      modifiers: {
+        brakeOffset: modifiers.brakeOffset,
+        driveOffset: modifiers.driveOffset,
+        reboundDamping: modifiers.reboundDamping,
+        bumpDamping: modifiers.bumpDamping,
+        rollCenterOffset: modifiers.rollCenterOffset,
+        antiDive: modifiers.antiDive,
+        antiSquat: modifiers.antiSquat,
+      },
     };
+    return JSON.parse(JSON.stringify(preset));
+  }
 
-    if (inputs.drivetrain === DriveType.fwd) {
-      result.front *= (1 - modifierPercents.value.driveOffset);
-    } else if (inputs.drivetrain === DriveType.rwd) {
-      result.rear *= (1 - modifierPercents.value.driveOffset);
-    }
-    return result;
-  });
-
-  const rebound = computed(() => ({
-    front: ((springs.value.front / deltas.value.springs.front) * deltas.value.rebound.front) * modifierPercents.value.rebound,
-    rear: ((springs.value.rear / deltas.value.springs.rear) * deltas.value.rebound.rear) * modifierPercents.value.rebound,
-  }));
-
-  const bump = computed(() => ({
-    front: rebound.value.front * modifierPercents.value.bump,
-    rear: rebound.value.rear * modifierPercents.value.bump,
-  }));
-
-  const arbs = computed(() => ({
-    front: ((springs.value.front / deltas.value.springs.front) * deltas.value.arb.front) * modifierPercents.value.arb,
-    rear: ((springs.value.rear / deltas.value.springs.rear) * deltas.value.arb.rear) * modifierPercents.value.arb,
-  }));
-
-  const tune = computed<TuneCalculatorResult>(() => ({
-    weightBalance: weightBalance.value,
-    springs: springs.value,
-    springRates: springRates.value,
-    springRatesInNewtons: springRatesInNewtons.value,
-    rebound: rebound.value,
-    bump: bump.value,
-    arbs: arbs.value,
-    brakeBalance: (weightBalance.value.rear + modifierPercents.value.brakeOffset) * 100,
-    centerDiff: weightBalance.value.rear * 100,
-  }));
+  /**
+   * Replaces the modifier maps, then picks the modifiers for the current spring type and class
+   */
+  function applyPreset(preset: CalculatorPreset) {
+    Object.assign(springTypeModifiersMap, JSON.parse(JSON.stringify(preset.springTypeModifiers)));
+    Object.assign(arbClassModifiers.fh5, preset.arbClassModifiers.fh5);
+    Object.assign(arbClassModifiers.fm8, preset.arbClassModifiers.fm8);
+    Object.assign(freqClassModifiers.fh5, preset.freqClassModifiers.fh5);
+    Object.assign(freqClassModifiers.fm8, preset.freqClassModifiers.fm8);
+
+    Object.assign(modifiers, {
+      ...preset.modifiers,
+      ...springTypeModifiersMap[inputs.springs],
+      arb: arbClassModifiersMap.value[inputs.piClass],
+      freq: getFrequencyModifiers(),
+    });
+  }
 
   return {
     inputs,
@@ -212,5 +175,9 @@ export default function useTuneCalculator() {
     tune,
     deltas,
     springTypeModifiersMap,
+    load,
+    getModifiers,
+    getPreset,
+    applyPreset,
   };
 }
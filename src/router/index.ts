@@ -2,9 +2,17 @@ import { createRouter, createWebHistory } from 'vue-router';
 
 import AppHome from '../components/AppHome.vue';
 import TuningChart from '../components/chart/TuningChart.vue';
+import TuneCompare from '../components/compare/TuneCompare.vue';
 import FHFormatter from '../components/formatter/horizon/FHFormatter.vue';
+import FHPrintSheet from '../components/formatter/horizon/FHPrintSheet.vue';
+import { fhMigrations, getEncoderOptions as getFHEncoderOptions } from '../components/formatter/horizon/FHSetup';
 import FMFormatter from '../components/formatter/motorsport/FMFormatter.vue';
+import FMPrintSheet from '../components/formatter/motorsport/FMPrintSheet.vue';
+import { fmMigrations, getEncoderOptions as getFMEncoderOptions } from '../components/formatter/motorsport/FMSetup';
 import MakesAndModels from '../components/MakesAndModels.vue';
+import TuneCalculator from '../components/tune-calculator/TuneCalculator.vue';
+
+import upgradeFormVersion from './upgradeFormVersion';
 
 const router = createRouter({
   history: createWebHistory(import.meta.env.BASE_URL),
@@ -18,6 +26,17 @@ const router = createRouter({
           name: 'formatter-fh5',
           path: 'forza/horizon5/:version/:encodedForm?',
           component: FHFormatter,
+          beforeEnter: upgradeFormVersion(getFHEncoderOptions, fhMigrations, true),
+          props: (route) => ({
+            version: route.params.version,
+            encodedForm: route.params.encodedForm,
+          }),
+        },
+        {
+          name: 'formatter-fh5-print',
+          path: 'forza/horizon5/:version/:encodedForm/print',
+          component: FHPrintSheet,
+          beforeEnter: upgradeFormVersion(getFHEncoderOptions, fhMigrations, true),
           props: (route) => ({
             version: route.params.version,
             encodedForm: route.params.encodedForm,
@@ -27,6 +46,17 @@ const router = createRouter({
           name: 'formatter-fm8',
           path: 'forza/motorsport/:version/:encodedForm?',
           component: FMFormatter,
+          beforeEnter: upgradeFormVersion(getFMEncoderOptions, fmMigrations),
+          props: (route) => ({
+            version: route.params.version,
+            encodedForm: route.params.encodedForm,
+          }),
+        },
+        {
+          name: 'formatter-fm8-print',
+          path: 'forza/motorsport/:version/:encodedForm/print',
+          component: FMPrintSheet,
+          beforeEnter: upgradeFormVersion(getFMEncoderOptions, fmMigrations),
           props: (route) => ({
             version: route.params.version,
             encodedForm: route.params.encodedForm,
@@ -45,8 +75,10 @@ const router = createRouter({
         },
       ],
     },
+    { name: 'compare', path: '/compare', component: TuneCompare },
     { name: 'tuningchart', path: '/chart', component: TuningChart },
     { name: 'cars', path: '/cars', component: MakesAndModels },
+    { name: 'calculator', path: '/calculator', component: TuneCalculator },
   ],
 });
 
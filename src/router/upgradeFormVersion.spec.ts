@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { RouteLocationNormalized, RouteLocationRaw } from 'vue-router';
+
+import { fmMigrations, FMSetupV3, getEncoderOptions } from '../components/formatter/motorsport/FMSetup';
+import useFormEncoder from '../lib/useFormEncoder';
+
+import upgradeFormVersion from './upgradeFormVersion';
+
+// Original v2 link, without the "Rotors and Compression" engine upgrade
+const ENCODED_V2_FORM =
+  'NoIgYg9hIDQgQgQwE6xAFgKxoJx52gEpqYAMpsO5ca65J9cAjGRc2yNjFnAGaVM4AawDm/GAFoATADpMkpnLgB2NOJBM2pJRO3yAzKT6wJZGIJDi6cLGrRNlXeZdjPMXTUbMvz1Iz9AANhkmexCwqTD9MPQwrg0ZQLDVZhkADjCCOEiAXXMpY3zfQs04AGMAW1gpZ3Ea8qqYGv8671FeAHoKxo0yOzg0vqaZAtkCkAAjFDRUOFmQecW0AGEAZWW0AE0AUwBnIgB1ABE0fUSAGQACADUkuF2ABzRH56f7t5AX99ef77/Pj5fAG/YH/IHgj6EbYVCAAN22IIhaAAEttELCAJ6IwE47FoAAm9l2ABciaSmu4YPpHOY0rS4JAIJckMhmYgAF5oKSkGogHJAA';
+
+const guard = upgradeFormVersion(getEncoderOptions, fmMigrations);
+
+function runGuard(version: string, encodedForm: string) {
+  const to = { name: 'formatter-fm8', params: { version, encodedForm }, query: {}, hash: '' } as unknown as RouteLocationNormalized;
+  return guard.call(undefined, to, to, () => {}) as RouteLocationRaw | boolean;
+}
+
+describe('upgradeFormVersion', () => {
+  it('should let links at the latest version through', () => {
+    expect(runGuard('v3', '')).toBe(true);
+  });
+
+  it('should upgrade a v2 link to v3 and rewrite the URL', () => {
+    const result = runGuard('v2', ENCODED_V2_FORM) as { name: string; params: Record<string, string>; replace: boolean };
+
+    expect(result.name).toBe('formatter-fm8');
+    expect(result.replace).toBe(true);
+    expect(result.params.version).toBe('v3');
+
+    const form = useFormEncoder<FMSetupV3>(getEncoderOptions('v3')).decode(result.params.encodedForm);
+    expect(form.make).toBe('Foo');
+    expect(form.upgrades.engine.motorAndBattery).toBe('Sport');
+    expect(form.upgrades.engine.rotorsAndCompression).toBe('N/A');
+    expect(form.tune.steeringWheel.ffbScale).toBe('150');
+  });
+
+  it('should not redirect again once upgraded', () => {
+    const result = runGuard('v2', ENCODED_V2_FORM) as { params: Record<string, string> };
+
+    expect(runGuard('v3', result.params.encodedForm)).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { NavigationGuard } from 'vue-router';
+
+import { MigrationRegistry } from '../lib/migrations';
+import useFormEncoder, { FormEncoderOptions } from '../lib/useFormEncoder';
+
+/**
+ * Creates a route guard that upgrades links made with an older form version.
+ * The link is decoded with the version it was created with, migrated to the latest
+ * version, re-encoded and the URL rewritten to point at the latest version.
+ */
+export default function upgradeFormVersion<T>(
+  getEncoderOptions: (version: string) => FormEncoderOptions,
+  migrations: MigrationRegistry<T>,
+  useLegacyDeserialization: boolean = false,
+): NavigationGuard {
+  return (to) => {
+    const version = to.params.version as string;
+    const encodedForm = (to.params.encodedForm as string) || '';
+    const sourceOptions = getEncoderOptions(version);
+    const sourceEncoder = useFormEncoder<T>(sourceOptions);
+
+    try {
+      // Versioned payloads know their own version, legacy payloads are assumed to match the route
+      const schema = sourceEncoder.getSchema(encodedForm) ?? sourceOptions.schema ?? version;
+      const sourceVersion = schema.split('/').pop() as string;
+
+      if (version === migrations.latestVersion && sourceVersion === migrations.latestVersion) return true;
+
+      const latestEncoder = useFormEncoder<T>(getEncoderOptions(migrations.latestVersion));
+      const form = sourceVersion === version
+        ? sourceEncoder.decode(encodedForm, useLegacyDeserialization)
+        : useFormEncoder<T>(getEncoderOptions(sourceVersion)).decode(encodedForm, useLegacyDeserialization);
+
+      const migrated = migrations.migrate(form, sourceVersion);
+
+      return {
+        name: to.name as string,
+        query: to.query,
+        hash: to.hash,
+        params: {
+          ...to.params,
+          version: migrations.latestVersion,
+          encodedForm: latestEncoder.encode(migrated),
+        },
+        replace: true,
+      };
+    } catch (error) {
+      console.error(`Unable to upgrade form from version "${version}"`, error);
+      return true;
+    }
+  };
+}
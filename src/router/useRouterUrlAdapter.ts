@@ -0,0 +1,20 @@
+import { useRouter } from 'vue-router';
+
+import { FormUrlAdapter } from '../lib/adapters';
+
+/**
+ * Keeps the `encodedForm` route param in sync with the form
+ */
+export default function useRouterUrlAdapter(): FormUrlAdapter {
+  const router = useRouter();
+
+  return {
+    replaceEncodedForm(encodedForm) {
+      router.replace({
+        params: {
+          encodedForm,
+        },
+      });
+    },
+  };
+}